@@ -0,0 +1,89 @@
+/**
+ * CacheManager LRU eviction, size limits, TTL and tags
+ */
+
+import { CacheManager } from '../utils/cache.js';
+
+// JSON size of a string value: its characters plus the two quotes
+const valueOfBytes = (bytes: number) => 'x'.repeat(bytes - 2);
+
+describe('CacheManager', () => {
+  it('evicts the least recently used entry past maxEntries', () => {
+    const cache = new CacheManager({ maxEntries: 2 });
+    cache.set('a', 1, 60000);
+    cache.set('b', 2, 60000);
+
+    // Reading `a` makes `b` the least recently used
+    expect(cache.get('a')).toBe(1);
+    cache.set('c', 3, 60000);
+
+    expect(cache.get('b')).toBeNull();
+    expect(cache.get('a')).toBe(1);
+    expect(cache.get('c')).toBe(3);
+    expect(cache.getStats()).toMatchObject({ size: 2, evictions: 1 });
+  });
+
+  it('evicts until the entries fit in maxBytes', () => {
+    const cache = new CacheManager({ maxBytes: 100 });
+    cache.set('a', valueOfBytes(40), 60000);
+    cache.set('b', valueOfBytes(40), 60000);
+
+    cache.set('c', valueOfBytes(60), 60000);
+
+    // Dropping `a` alone brings the total down to the limit
+    expect(cache.get('a')).toBeNull();
+    expect(cache.get('b')).not.toBeNull();
+    expect(cache.get('c')).not.toBeNull();
+    expect(cache.getStats()).toMatchObject({ size: 2, bytes: 100, evictions: 1 });
+  });
+
+  it('does not cache a value larger than maxBytes', () => {
+    const cache = new CacheManager({ maxBytes: 100 });
+    cache.set('a', valueOfBytes(40), 60000);
+
+    cache.set('big', valueOfBytes(101), 60000);
+
+    expect(cache.get('big')).toBeNull();
+    expect(cache.get('a')).not.toBeNull();
+    expect(cache.getStats()).toMatchObject({ bytes: 40, evictions: 0 });
+  });
+
+  it('keeps the byte count when a key is overwritten', () => {
+    const cache = new CacheManager();
+    cache.set('a', valueOfBytes(40), 60000);
+
+    cache.set('a', valueOfBytes(10), 60000);
+
+    expect(cache.getStats()).toMatchObject({ size: 1, bytes: 10 });
+  });
+
+  it('expires entries after their TTL', () => {
+    jest.useFakeTimers({ now: 0 });
+    try {
+      const cache = new CacheManager();
+      cache.set('a', 1, 1000);
+      cache.set('b', 2, 5000);
+
+      jest.advanceTimersByTime(1001);
+
+      expect(cache.get('a')).toBeNull();
+      expect(cache.cleanup()).toBe(0);
+      expect(cache.get('b')).toBe(2);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('deletes every entry carrying an invalidated tag', () => {
+    const cache = new CacheManager();
+    cache.set('cliente', 1, 60000, ['cliente:1']);
+    cache.set('lista', [1, 2], 60000, ['clientes']);
+    cache.set('otro', 2, 60000, ['cliente:2']);
+
+    expect(cache.invalidateTags(['cliente:1', 'clientes'])).toBe(2);
+
+    expect(cache.get('cliente')).toBeNull();
+    expect(cache.get('lista')).toBeNull();
+    expect(cache.get('otro')).toBe(2);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Circuit breaker states, and how WispHubClient feeds it
+ */
+
+import { setTimeout as sleep } from 'node:timers/promises';
+import { CircuitBreaker, CircuitOpenError } from '../utils/circuit-breaker.js';
+import { startStubServer } from './stub-server.js';
+import type { StubServer } from './stub-server.js';
+import type { WispHubClient } from '../clients/wisphub-client.js';
+
+beforeAll(() => {
+  // The logger writes every entry to stderr
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 0 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  function openBreaker(): CircuitBreaker {
+    const breaker = new CircuitBreaker(2, 1000);
+    breaker.recordFailure();
+    breaker.recordFailure();
+    return breaker;
+  }
+
+  it('opens after the failure threshold and fails fast', () => {
+    const breaker = new CircuitBreaker(2, 1000);
+
+    breaker.recordFailure();
+    expect(breaker.assertCanRequest()).toBe(false);
+
+    breaker.recordFailure();
+    expect(breaker.getStatus()).toEqual({ estado: 'open', fallos_consecutivos: 2, reintento_en_s: 1 });
+    expect(() => breaker.assertCanRequest()).toThrow(CircuitOpenError);
+  });
+
+  it('lets a single trial through once the reset timeout has passed', () => {
+    const breaker = openBreaker();
+
+    jest.advanceTimersByTime(1000);
+
+    expect(breaker.assertCanRequest()).toBe(true);
+    expect(breaker.getStatus().estado).toBe('half_open');
+    expect(() => breaker.assertCanRequest()).toThrow(CircuitOpenError);
+  });
+
+  it('closes when the trial succeeds', () => {
+    const breaker = openBreaker();
+    jest.advanceTimersByTime(1000);
+    breaker.assertCanRequest();
+
+    breaker.recordSuccess();
+
+    expect(breaker.getStatus()).toEqual({ estado: 'closed', fallos_consecutivos: 0 });
+    expect(breaker.assertCanRequest()).toBe(false);
+  });
+
+  it('reopens when the trial fails', () => {
+    const breaker = openBreaker();
+    jest.advanceTimersByTime(1000);
+    breaker.assertCanRequest();
+
+    breaker.recordFailure();
+
+    expect(breaker.getStatus().estado).toBe('open');
+    expect(() => breaker.assertCanRequest()).toThrow(CircuitOpenError);
+  });
+
+  it('hands the trial to the next request once the current one is released', () => {
+    const breaker = openBreaker();
+    jest.advanceTimersByTime(1000);
+    breaker.assertCanRequest();
+
+    breaker.releaseTrial();
+
+    expect(breaker.assertCanRequest()).toBe(true);
+  });
+});
+
+describe('WispHubClient circuit breaker', () => {
+  let stub: StubServer;
+  let createClient: () => WispHubClient;
+
+  beforeAll(async () => {
+    stub = await startStubServer();
+
+    // Config reads the environment when loaded, so the client is imported after this
+    process.env.WISPHUB_API_KEY = 'test-key';
+    process.env.WISPHUB_BASE_URL = stub.baseUrl;
+    process.env.WISPHUB_CIRCUIT_FAILURES = '1';
+    process.env.WISPHUB_CIRCUIT_RESET_MS = '1000';
+    process.env.WISPHUB_RATE_LIMIT_RPS = '0.5';
+    process.env.WISPHUB_RATE_LIMIT_BURST = '1';
+    const { WispHubClient } = await import('../clients/wisphub-client.js');
+    createClient = () => new WispHubClient();
+  });
+
+  afterAll(async () => {
+    await stub?.close();
+  });
+
+  it('does not hold the half-open circuit for a trial the rate limiter never sent', async () => {
+    stub.route('/api/fail/', () => ({ status: 500, body: { detail: 'Error' } }));
+    stub.route('/api/ok/', () => ({ status: 200, body: { ok: true } }));
+    const client = createClient();
+
+    // Opens the circuit and spends the only token
+    await expect(client.get('/api/fail/')).rejects.toThrow();
+    expect(client.getCircuitStatus().estado).toBe('open');
+    await sleep(1050);
+
+    // The trial waits for a token and is cancelled before it is sent
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+    await expect(client.get('/api/ok/', undefined, undefined, { signal: controller.signal })).rejects.toThrow();
+    await sleep(10);
+
+    await expect(client.get('/api/ok/')).resolves.toEqual({ ok: true });
+    expect(client.getCircuitStatus().estado).toBe('closed');
+    expect(stub.hits).toEqual(['GET /api/fail/', 'GET /api/ok/']);
+  });
+});
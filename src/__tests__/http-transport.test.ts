@@ -0,0 +1,92 @@
+/**
+ * Streamable HTTP session lifecycle: unknown and idle sessions get 404
+ */
+
+import { setTimeout as sleep } from 'node:timers/promises';
+import type { Server as HttpServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { LATEST_PROTOCOL_VERSION } from '@modelcontextprotocol/sdk/types.js';
+import { startHttpTransport } from '../transports/http-transport.js';
+
+const SESSION_IDLE_MS = 200;
+
+describe('HTTP transport sessions', () => {
+  let httpServer: HttpServer;
+  let mcpUrl: string;
+  let closedServers: number;
+
+  beforeAll(async () => {
+    // The logger writes every entry to stderr
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const serverFactory = () => {
+      const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: {} });
+      server.onclose = () => closedServers++;
+      return server;
+    };
+    httpServer = await startHttpTransport(serverFactory, { host: '127.0.0.1', port: 0, sessionIdleMs: SESSION_IDLE_MS });
+    mcpUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/mcp`;
+  });
+
+  afterAll(async () => {
+    httpServer.closeAllConnections();
+    await new Promise(resolve => httpServer.close(resolve));
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    closedServers = 0;
+  });
+
+  async function post(message: object, sessionId?: string): Promise<Response> {
+    const response = await fetch(mcpUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        ...(sessionId ? { 'Mcp-Session-Id': sessionId } : {})
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', ...message })
+    });
+    // Drains the body so the connection is released
+    await response.text();
+    return response;
+  }
+
+  async function openSession(): Promise<string> {
+    const response = await post({
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: LATEST_PROTOCOL_VERSION, capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } }
+    });
+    expect(response.status).toBe(200);
+
+    const sessionId = response.headers.get('mcp-session-id');
+    expect(sessionId).toBeTruthy();
+    return sessionId!;
+  }
+
+  it('answers 404 for an unknown session', async () => {
+    const response = await post({ id: 2, method: 'ping' }, 'no-such-session');
+
+    expect(response.status).toBe(404);
+  });
+
+  it('answers 404 once a session has been idle too long', async () => {
+    const sessionId = await openSession();
+    expect((await post({ id: 2, method: 'ping' }, sessionId)).status).toBe(200);
+
+    await sleep(SESSION_IDLE_MS * 2);
+
+    expect((await post({ id: 3, method: 'ping' }, sessionId)).status).toBe(404);
+  });
+
+  it('closes an idle session whose client never comes back', async () => {
+    await openSession();
+
+    await sleep(SESSION_IDLE_MS * 3);
+
+    expect(closedServers).toBe(1);
+  });
+});
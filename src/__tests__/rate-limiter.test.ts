@@ -0,0 +1,44 @@
+/**
+ * Token bucket pacing, pauses and cancellation
+ */
+
+import { TokenBucketRateLimiter } from '../utils/rate-limiter.js';
+
+// Milliseconds `fn` takes to resolve
+async function elapsed(fn: () => Promise<unknown>): Promise<number> {
+  const start = Date.now();
+  await fn();
+  return Date.now() - start;
+}
+
+describe('TokenBucketRateLimiter', () => {
+  it('lets a burst through at once, then paces requests', async () => {
+    const limiter = new TokenBucketRateLimiter(10, 2);
+
+    expect(await elapsed(async () => {
+      await limiter.acquire();
+      await limiter.acquire();
+    })).toBeLessThan(50);
+
+    expect(await elapsed(() => limiter.acquire())).toBeGreaterThanOrEqual(80);
+  });
+
+  it('holds every request while paused', async () => {
+    const limiter = new TokenBucketRateLimiter(0, 1);
+    limiter.pauseFor(150);
+
+    expect(limiter.getPauseRemaining()).toBeGreaterThan(100);
+    expect(await elapsed(() => limiter.acquire())).toBeGreaterThanOrEqual(140);
+    expect(limiter.getPauseRemaining()).toBe(0);
+  });
+
+  it('rejects a waiting request when its signal aborts', async () => {
+    const limiter = new TokenBucketRateLimiter(1, 1);
+    await limiter.acquire();
+    const controller = new AbortController();
+
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(limiter.acquire(controller.signal)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * End-to-end tool calls: an MCP client talks to `createServer` in memory,
+ * and the server talks HTTP to the WispHub simulator
+ */
+
+import type { Server as HttpServer } from 'http';
+import type { AddressInfo } from 'net';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createSimulator } from '../simulator/wisphub-simulator.js';
+import { createSeedData, FIRST_SERVICIO_ID } from '../simulator/seed-data.js';
+import type { ServiceResolver } from '../services/account-services.js';
+
+const API_KEY = 'test-key';
+
+describe('tools against the WispHub simulator', () => {
+  const state = createSeedData();
+  let simulator: HttpServer;
+  let client: Client;
+  let services: ServiceResolver;
+
+  beforeAll(async () => {
+    // The logger writes every entry to stderr
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    simulator = createSimulator({ apiKey: API_KEY }, state);
+    await new Promise<void>(resolve => simulator.listen(0, '127.0.0.1', resolve));
+    const { port } = simulator.address() as AddressInfo;
+
+    // Config reads the environment when loaded, so the server is imported after this
+    process.env.WISPHUB_API_KEY = API_KEY;
+    process.env.WISPHUB_BASE_URL = `http://127.0.0.1:${port}`;
+    const { getConfig } = await import('../config/server-config.js');
+    const { createServer, createServiceResolver } = await import('../index.js');
+
+    services = createServiceResolver(getConfig());
+    const server = createServer(services);
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'integration-test', version: '1.0.0' });
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  });
+
+  afterAll(async () => {
+    await client?.close();
+    await new Promise(resolve => simulator?.close(resolve));
+    jest.restoreAllMocks();
+  });
+
+  async function callTool(name: string, args: Record<string, unknown>) {
+    const result = await client.callTool({ name, arguments: args });
+    expect(result.isError).toBeFalsy();
+    return result.structuredContent as Record<string, any>;
+  }
+
+  it('rejects arguments the tool schema does not accept', async () => {
+    const result = await client.callTool({ name: 'diagnostico_servidor', arguments: { extra: true } });
+
+    expect(result.isError).toBe(true);
+  });
+
+  it('lists every cliente without reporting truncation', async () => {
+    const result = await callTool('consultar_clientes', { todos: true });
+
+    expect(result.clientes).toHaveLength(state.clientes.length);
+    expect(result.truncado).toBe(false);
+  });
+
+  it('lists tickets with no técnico assigned', async () => {
+    const ticket = state.tickets.find(t => t.tecnico === null)!;
+
+    const result = await callTool('obtener_tickets_cliente', { servicio: ticket.servicio });
+
+    expect(result.tickets).toEqual(expect.arrayContaining([
+      expect.objectContaining({ id: ticket.id, tecnico: '' })
+    ]));
+  });
+
+  it('updates a ticket and verifies it against the detail endpoint', async () => {
+    const ticket = state.tickets.find(t => t.estado === 1)!;
+
+    const result = await callTool('actualizar_ticket', { ticketId: ticket.id, estado: 'en_progreso' });
+
+    expect(result.verificado).toBe(true);
+    expect(result.ticket).toMatchObject({ id: ticket.id, estado: 'en_progreso' });
+    expect(ticket.estado).toBe(2);
+  });
+
+  it('updates a cliente and reports the contact fields the API drops', async () => {
+    const result = await callTool('actualizar_cliente', {
+      id_servicio: FIRST_SERVICIO_ID,
+      comentarios: 'Cliente prefiere contacto por la tarde',
+      email: 'nuevo@example.com'
+    });
+
+    expect(result.campos_actualizados).toEqual(expect.arrayContaining(['comentarios', 'email']));
+    expect(result.campos_no_persistentes).toEqual(['email']);
+    expect(result.cliente).toMatchObject({
+      id_servicio: FIRST_SERVICIO_ID,
+      comentarios: 'Cliente prefiere contacto por la tarde'
+    });
+    expect(result.cliente.email).not.toBe('nuevo@example.com');
+  });
+
+  it('reads the updated cliente back through obtener_cliente', async () => {
+    const result = await callTool('obtener_cliente', { clienteId: String(FIRST_SERVICIO_ID) });
+
+    expect(result.cliente.comentarios).toBe('Cliente prefiere contacto por la tarde');
+  });
+
+  it('reads the cliente saldo fresh after a payment', async () => {
+    const { id_servicio } = state.clientes.find(c => Number(c.saldo) < 0)!;
+    const before = await callTool('obtener_cliente', { clienteId: String(id_servicio) });
+
+    const pago = await services().saldos.registrarPago(id_servicio, 500, 'efectivo');
+    expect(pago.success).toBe(true);
+
+    const after = await callTool('obtener_cliente', { clienteId: String(id_servicio) });
+    expect(after.cliente.saldo_numerico).toBe(before.cliente.saldo_numerico + 500);
+  });
+
+  it.each(['wisphub://clientes/999999', 'wisphub://tickets/999999'])('answers resource not found at once for %s', async uri => {
+    const start = Date.now();
+
+    await expect(client.readResource({ uri })).rejects.toMatchObject({ code: -32002 });
+    expect(Date.now() - start).toBeLessThan(500);
+  });
+});
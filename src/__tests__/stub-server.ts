@@ -0,0 +1,56 @@
+/**
+ * Minimal HTTP server for WispHubClient tests: each test decides how a path
+ * answers, and every request that reached it is recorded
+ */
+
+import { createServer } from 'http';
+import type { IncomingMessage } from 'http';
+import type { AddressInfo } from 'net';
+
+export interface StubResponse {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+  delayMs?: number;
+}
+
+export type StubHandler = (req: IncomingMessage, url: URL) => StubResponse;
+
+export interface StubServer {
+  baseUrl: string;
+  // "METHOD /path/" of every request received, in order
+  hits: string[];
+  route(pathname: string, handler: StubHandler): void;
+  close(): Promise<void>;
+}
+
+export async function startStubServer(): Promise<StubServer> {
+  const routes = new Map<string, StubHandler>();
+  const hits: string[] = [];
+
+  const server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    hits.push(`${req.method} ${url.pathname}`);
+
+    const handler = routes.get(url.pathname);
+    const { status, body, headers, delayMs } = handler ? handler(req, url) : { status: 404, body: { detail: 'No encontrado.' } };
+
+    setTimeout(() => {
+      res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+      res.end(body === undefined ? '' : JSON.stringify(body));
+    }, delayMs ?? 0);
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    hits,
+    route: (pathname, handler) => routes.set(pathname, handler),
+    close: () => new Promise(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    })
+  };
+}
@@ -0,0 +1,179 @@
+/**
+ * WispHubClient request handling against a stub WispHub
+ */
+
+import { startStubServer } from './stub-server.js';
+import type { StubResponse, StubServer } from './stub-server.js';
+import type { WispHubClient } from '../clients/wisphub-client.js';
+
+// Answers `failures` times with a 500, then with `success`
+function failingFirst(failures: number, success: StubResponse) {
+  let calls = 0;
+  return () => (calls++ < failures ? { status: 500, body: { detail: 'Error interno.' } } : success);
+}
+
+describe('WispHubClient', () => {
+  let stub: StubServer;
+  let createClient: () => WispHubClient;
+
+  beforeAll(async () => {
+    // The logger writes every entry to stderr
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    stub = await startStubServer();
+
+    // Config reads the environment when loaded, so the client is imported after this
+    process.env.WISPHUB_API_KEY = 'test-key';
+    process.env.WISPHUB_BASE_URL = stub.baseUrl;
+    const { WispHubClient } = await import('../clients/wisphub-client.js');
+    createClient = () => new WispHubClient();
+  });
+
+  afterAll(async () => {
+    await stub?.close();
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    stub.hits.length = 0;
+  });
+
+  describe('retries', () => {
+    it('retries a GET after a 5xx', async () => {
+      stub.route('/api/clientes/', failingFirst(1, { status: 200, body: { results: [] } }));
+
+      await expect(createClient().get('/api/clientes/')).resolves.toEqual({ results: [] });
+      expect(stub.hits).toEqual(['GET /api/clientes/', 'GET /api/clientes/']);
+    });
+
+    it('does not retry a POST without an Idempotency-Key', async () => {
+      stub.route('/api/tickets/', failingFirst(1, { status: 201, body: { id: 1 } }));
+
+      await expect(createClient().post('/api/tickets/', { asunto: 'Sin internet' })).rejects.toThrow('WispHub API Error (500)');
+      expect(stub.hits).toEqual(['POST /api/tickets/']);
+    });
+
+    it('retries a POST that carries an Idempotency-Key', async () => {
+      const keys: unknown[] = [];
+      const answer = failingFirst(1, { status: 201, body: { id: 1 } });
+      stub.route('/api/tickets/', req => {
+        keys.push(req.headers['idempotency-key']);
+        return answer();
+      });
+
+      await expect(createClient().post('/api/tickets/', { asunto: 'Sin internet' }, { idempotencyKey: 'ticket-1' }))
+        .resolves.toEqual({ id: 1 });
+      expect(keys).toEqual(['ticket-1', 'ticket-1']);
+    });
+
+    it('does not retry a 4xx', async () => {
+      stub.route('/api/clientes/1/', () => ({ status: 404, body: { detail: 'No encontrado.' } }));
+
+      await expect(createClient().get('/api/clientes/1/')).rejects.toThrow('WispHub API Error (404)');
+      expect(stub.hits).toEqual(['GET /api/clientes/1/']);
+    });
+  });
+
+  describe('rate limiting', () => {
+    it('waits out Retry-After on a 429 and retries', async () => {
+      let calls = 0;
+      stub.route('/api/planes/', () => (calls++ === 0
+        ? { status: 429, body: { detail: 'Solicitud fue regulada.' }, headers: { 'Retry-After': '1' } }
+        : { status: 200, body: [] }));
+      const start = Date.now();
+
+      await expect(createClient().get('/api/planes/')).resolves.toEqual([]);
+      expect(Date.now() - start).toBeGreaterThanOrEqual(900);
+      expect(stub.hits).toEqual(['GET /api/planes/', 'GET /api/planes/']);
+    });
+
+    it('fails fast instead of waiting out a long Retry-After', async () => {
+      stub.route('/api/planes/', () => ({ status: 429, body: { detail: 'Solicitud fue regulada.' }, headers: { 'Retry-After': '120' } }));
+      const client = createClient();
+
+      await expect(client.get('/api/planes/')).rejects.toThrow('Retry-After: 120s');
+      await expect(client.get('/api/planes/')).rejects.toThrow('Rate limit pause in effect');
+      expect(stub.hits).toEqual(['GET /api/planes/']);
+    });
+  });
+
+  describe('in-flight GET coalescing', () => {
+    beforeEach(() => {
+      stub.route('/api/zonas/', () => ({ status: 200, body: [{ id: 1 }], delayMs: 100 }));
+    });
+
+    it('shares one HTTP call between identical concurrent GETs', async () => {
+      const client = createClient();
+
+      const results = await Promise.all([client.get('/api/zonas/'), client.get('/api/zonas/'), client.get('/api/zonas/')]);
+
+      expect(results).toEqual([[{ id: 1 }], [{ id: 1 }], [{ id: 1 }]]);
+      expect(stub.hits).toEqual(['GET /api/zonas/']);
+    });
+
+    it('keeps the shared call going for the others when one caller aborts', async () => {
+      const client = createClient();
+      const controller = new AbortController();
+
+      const aborted = client.get('/api/zonas/', undefined, undefined, { signal: controller.signal });
+      const others = Promise.all([client.get('/api/zonas/'), client.get('/api/zonas/')]);
+      setTimeout(() => controller.abort(), 20);
+
+      await expect(aborted).rejects.toThrow('Request cancelled');
+      await expect(others).resolves.toEqual([[{ id: 1 }], [{ id: 1 }]]);
+      expect(stub.hits).toEqual(['GET /api/zonas/']);
+    });
+
+    it('starts a new call for a caller arriving after every waiter aborted', async () => {
+      const client = createClient();
+      const controller = new AbortController();
+
+      const aborted = client.get('/api/zonas/', undefined, undefined, { signal: controller.signal });
+      setTimeout(() => controller.abort(), 20);
+      await expect(aborted).rejects.toThrow('Request cancelled');
+
+      await expect(client.get('/api/zonas/')).resolves.toEqual([{ id: 1 }]);
+      expect(stub.hits).toEqual(['GET /api/zonas/', 'GET /api/zonas/']);
+    });
+  });
+
+  describe('pagination', () => {
+    const items = [1, 2, 3, 4, 5].map(id => ({ id }));
+
+    beforeEach(() => {
+      // Paginated like Django REST Framework, with `next` pointing at the following page
+      stub.route('/api/clientes/', (_req, url) => {
+        const limit = Number(url.searchParams.get('limit'));
+        const offset = Number(url.searchParams.get('offset') ?? 0);
+        const next = offset + limit < items.length ? `${stub.baseUrl}/api/clientes/?limit=${limit}&offset=${offset + limit}` : null;
+        return { status: 200, body: { count: items.length, next, previous: null, results: items.slice(offset, offset + limit) } };
+      });
+      stub.route('/api/zonas/', () => ({ status: 200, body: items }));
+    });
+
+    it('reports truncation when the cap cuts a page short', async () => {
+      const result = await createClient().paginateAll('/api/clientes/', { limit: 2, offset: 0 }, { maxItems: 3 });
+
+      expect(result).toEqual({ items: items.slice(0, 3), truncado: true });
+    });
+
+    it('reports truncation when the cap is reached with a next page pending', async () => {
+      const result = await createClient().paginateAll('/api/clientes/', { limit: 2, offset: 0 }, { maxItems: 4 });
+
+      expect(result).toEqual({ items: items.slice(0, 4), truncado: true });
+      expect(stub.hits).toHaveLength(2);
+    });
+
+    it('does not report truncation when the cap equals the number of items', async () => {
+      const result = await createClient().paginateAll('/api/clientes/', { limit: 2, offset: 0 }, { maxItems: 5 });
+
+      expect(result).toEqual({ items, truncado: false });
+      expect(stub.hits).toHaveLength(3);
+    });
+
+    it('reads an endpoint that returns a bare array as a single page', async () => {
+      const result = await createClient().paginateAll('/api/zonas/', undefined, { maxItems: 10 });
+
+      expect(result).toEqual({ items, truncado: false });
+    });
+  });
+});
@@ -0,0 +1,14 @@
+/**
+ * Cache tags for WispHub entities
+ * Cached GETs are labelled with the entities they return, and each write
+ * invalidates the labels of the entities it changed
+ */
+
+export const CACHE_TAGS = {
+  // Any list or search of clientes
+  clientes: 'clientes',
+  cliente: (idServicio: number | string) => `cliente:${idServicio}`,
+  saldo: (idServicio: number | string) => `saldo:${idServicio}`,
+  ticket: (ticketId: number | string) => `ticket:${ticketId}`,
+  ticketsServicio: (idServicio: number | string) => `tickets:servicio:${idServicio}`
+};
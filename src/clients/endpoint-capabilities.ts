@@ -0,0 +1,177 @@
+/**
+ * Endpoint capability probing
+ * Learns once per account which WispHub collections exist and which methods
+ * they accept (OPTIONS Allow header, plus a one-item GET), so services pick
+ * an endpoint up front instead of trying writes against several of them
+ */
+
+import type { WispHubClient } from './wisphub-client.js';
+import { Logger } from '../utils/logger.js';
+import { waitForShared } from '../utils/abort.js';
+import type { CapacidadEndpoint, CapacidadesApi } from '../types/wisphub.types.js';
+
+// Where a cliente may be updated, in order of preference; instances differ in naming
+export const CLIENTE_ENDPOINTS = ['/api/clientes/', '/api/clients/', '/api/usuarios/', '/api/contactos/'];
+
+const PROBED_ENDPOINTS = [...CLIENTE_ENDPOINTS, '/api/tickets/', '/api/pagos/'];
+
+// A complete probe is kept for an hour; one that hit errors is retried sooner
+const CAPABILITIES_TTL_MS = 60 * 60 * 1000;
+const INCOMPLETE_CAPABILITIES_TTL_MS = 60 * 1000;
+
+interface CachedCapabilities {
+  promise: Promise<CapacidadesApi>;
+  expires: number;
+  // Latest finished probe, kept while a newer one runs
+  result?: CapacidadesApi;
+}
+
+// Keyed by client: the composition root builds exactly one per account
+const capabilitiesByClient = new WeakMap<WispHubClient, CachedCapabilities>();
+
+/**
+ * Capabilities of the WispHub instance behind `client`, probing on first use
+ * or once the cached result expires. Concurrent callers share one probe;
+ * `signal` only stops this caller from waiting for it.
+ */
+export function getEndpointCapabilities(client: WispHubClient, signal?: AbortSignal): Promise<CapacidadesApi> {
+  return waitForShared(startProbe(client).promise, signal);
+}
+
+/**
+ * Capabilities already learned for `client`, without waiting: undefined while
+ * the first probe runs (starting it if needed)
+ */
+export function peekEndpointCapabilities(client: WispHubClient): CapacidadesApi | undefined {
+  return startProbe(client).result;
+}
+
+function startProbe(client: WispHubClient): CachedCapabilities {
+  const cached = capabilitiesByClient.get(client);
+  if (cached && cached.expires > Date.now()) {
+    return cached;
+  }
+
+  const entry: CachedCapabilities = {
+    promise: probeCapabilities(client),
+    expires: Number.POSITIVE_INFINITY, // while the probe runs
+    result: cached?.result
+  };
+  capabilitiesByClient.set(client, entry);
+
+  entry.promise.then(
+    capacidades => {
+      const complete = Object.values(capacidades.endpoints).every(endpoint => endpoint.estado !== 'desconocido');
+      entry.expires = Date.now() + (complete ? CAPABILITIES_TTL_MS : INCOMPLETE_CAPABILITIES_TTL_MS);
+      entry.result = capacidades;
+    },
+    () => capabilitiesByClient.delete(client)
+  );
+
+  return entry;
+}
+
+/**
+ * First of `candidates` known to accept `method` at `scope`. Without a
+ * positive answer, the first candidate the probe could not rule out wins,
+ * and the first candidate overall when every one was ruled out.
+ */
+export function pickEndpoint(
+  capacidades: CapacidadesApi,
+  candidates: string[],
+  scope: 'lista' | 'detalle',
+  method: string
+): string {
+  const supports = (capacidad?: CapacidadEndpoint) => {
+    if (capacidad?.estado !== 'disponible') return false;
+    const methods = scope === 'lista' ? capacidad.metodos_lista : capacidad.metodos_detalle;
+    // An instance that does not answer OPTIONS tells us nothing about methods
+    return methods.length === 0 || methods.includes(method.toUpperCase());
+  };
+
+  const supported = candidates.find(endpoint => supports(capacidades.endpoints[endpoint]));
+  if (supported) return supported;
+
+  const unknown = candidates.find(endpoint => capacidades.endpoints[endpoint]?.estado !== 'no_disponible');
+  if (unknown) return unknown;
+
+  Logger.warn('No probed endpoint supports the request, using the first candidate', {
+    candidates,
+    scope,
+    method
+  });
+  return candidates[0];
+}
+
+async function probeCapabilities(client: WispHubClient): Promise<CapacidadesApi> {
+  // In parallel, so an unreachable WispHub costs one probe timeout rather than one per endpoint
+  const probed = await Promise.all(PROBED_ENDPOINTS.map(endpoint => probeEndpoint(client, endpoint)));
+  const endpoints: Record<string, CapacidadEndpoint> =
+    Object.fromEntries(PROBED_ENDPOINTS.map((endpoint, i) => [endpoint, probed[i]]));
+
+  Logger.info('WispHub endpoint capabilities probed', {
+    account: client.account,
+    endpoints: Object.fromEntries(Object.entries(endpoints).map(([endpoint, capacidad]) => [endpoint, capacidad.estado]))
+  });
+
+  return { sondeado_en: new Date().toISOString(), endpoints };
+}
+
+/**
+ * OPTIONS on the collection, a one-item GET to confirm it exists and find an
+ * ID, then OPTIONS on that item for the detail methods (PUT, PATCH...)
+ */
+async function probeEndpoint(client: WispHubClient, endpoint: string): Promise<CapacidadEndpoint> {
+  try {
+    const options = await client.inspect('OPTIONS', endpoint);
+    if (options.status === 404) {
+      return { estado: 'no_disponible', metodos_lista: [], metodos_detalle: [], status: 404 };
+    }
+
+    const list = await client.inspect('GET', endpoint, { limit: 1 });
+    if (list.status === 404) {
+      return { estado: 'no_disponible', metodos_lista: [], metodos_detalle: [], status: 404 };
+    }
+
+    const listOk = isSuccess(list.status);
+    if (!isSuccess(options.status) && !listOk) {
+      return { estado: 'desconocido', metodos_lista: [], metodos_detalle: [], status: list.status };
+    }
+
+    const capacidad: CapacidadEndpoint = {
+      estado: 'disponible',
+      metodos_lista: isSuccess(options.status) ? options.allow : ['GET'],
+      metodos_detalle: [],
+      status: list.status
+    };
+
+    const sampleId = listOk ? getSampleId(list.data) : undefined;
+    if (sampleId !== undefined) {
+      const detail = await client.inspect('OPTIONS', `${endpoint}${sampleId}/`);
+      if (isSuccess(detail.status)) {
+        capacidad.metodos_detalle = detail.allow;
+      }
+    }
+
+    return capacidad;
+  } catch (error) {
+    return {
+      estado: 'desconocido',
+      metodos_lista: [],
+      metodos_detalle: [],
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+// ID of the first item of a list response, paginated or bare
+function getSampleId(data: unknown): string | number | undefined {
+  const items = Array.isArray(data) ? data : (data as { results?: unknown[] } | null)?.results;
+  const first = Array.isArray(items) ? items[0] as Record<string, unknown> | undefined : undefined;
+  const id = first?.id ?? first?.id_servicio;
+  return typeof id === 'string' || typeof id === 'number' ? id : undefined;
+}
+
+function isSuccess(status: number): boolean {
+  return status >= 200 && status < 300;
+}
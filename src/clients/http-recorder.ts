@@ -0,0 +1,182 @@
+/**
+ * Record/replay of WispHub HTTP traffic as axios adapters
+ * WISPHUB_RECORD writes sanitized request/response pairs as JSON fixtures;
+ * WISPHUB_REPLAY serves responses from them without touching the network
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { AxiosError, AxiosHeaders } from 'axios';
+import type { AxiosAdapter, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { Logger } from '../utils/logger.js';
+
+const REDACTED = '[REDACTED]';
+
+// Keys whose values never reach a fixture (password_servicio, password_cpe, api_key...)
+const SECRET_KEY_PATTERN = /password|secret|token|api[_-]?key|authorization/i;
+
+// Response headers worth keeping; the rest is noise or infrastructure detail
+const RECORDED_HEADERS = ['content-type', 'retry-after'];
+
+export interface HttpFixture {
+  request: {
+    method: string;
+    url: string;
+    body?: unknown;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    data: unknown;
+  };
+  recorded_at: string;
+}
+
+/**
+ * Wrap `adapter` so every completed exchange (errors included) is written to `dir`
+ */
+export function createRecordingAdapter(dir: string, adapter: AxiosAdapter): AxiosAdapter {
+  return async (config) => {
+    try {
+      const response = await adapter(config);
+      await saveFixture(dir, config, response);
+      return response;
+    } catch (error) {
+      if (error instanceof AxiosError && error.response) {
+        await saveFixture(dir, config, error.response);
+      }
+      throw error;
+    }
+  };
+}
+
+/**
+ * Adapter answering from the fixtures in `dir`; a request without a fixture fails
+ */
+export function createReplayAdapter(dir: string): AxiosAdapter {
+  return async (config) => {
+    const { key, request } = describeRequest(config);
+    const file = join(dir, fixtureFileName(request.method, request.url, key));
+
+    let fixture: HttpFixture;
+    try {
+      fixture = JSON.parse(await readFile(file, 'utf8'));
+    } catch {
+      throw new Error(`Replay fixture not found for ${request.method} ${request.url} (${file})`);
+    }
+
+    Logger.debug('Replaying HTTP fixture', { method: request.method, url: request.url, file });
+
+    const response: AxiosResponse = {
+      data: fixture.response.data,
+      status: fixture.response.status,
+      statusText: '',
+      headers: new AxiosHeaders(fixture.response.headers),
+      config,
+      request: {}
+    };
+
+    // Same outcome axios gives a real response with this status
+    const validateStatus = config.validateStatus;
+    if (!validateStatus || validateStatus(response.status)) {
+      return response;
+    }
+
+    throw new AxiosError(
+      `Request failed with status code ${response.status}`,
+      response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      response.request,
+      response
+    );
+  };
+}
+
+/**
+ * Replace secret values, at any depth, with a placeholder
+ */
+export function scrubSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(scrubSecrets);
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, inner]) => [key, SECRET_KEY_PATTERN.test(key) ? REDACTED : scrubSecrets(inner)])
+    );
+  }
+
+  return value;
+}
+
+async function saveFixture(dir: string, config: InternalAxiosRequestConfig, response: AxiosResponse): Promise<void> {
+  const { key, request } = describeRequest(config);
+
+  const headers: Record<string, string> = {};
+  for (const name of RECORDED_HEADERS) {
+    const value = response.headers?.[name];
+    if (value !== undefined && value !== null) headers[name] = String(value);
+  }
+
+  const fixture: HttpFixture = {
+    request,
+    response: {
+      status: response.status,
+      headers,
+      // Adapters see the raw body; parse it so nested secrets can be scrubbed
+      data: scrubSecrets(parseBody(response.data))
+    },
+    recorded_at: new Date().toISOString()
+  };
+
+  try {
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, fixtureFileName(request.method, request.url, key)), JSON.stringify(fixture, null, 2) + '\n');
+  } catch (error) {
+    // A failed write must not fail the call it records
+    Logger.warn('Could not write HTTP fixture', { dir, error: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+/**
+ * Sanitized request and the key identifying it: method, path, sorted query
+ * and body. The Authorization header is never part of either.
+ */
+function describeRequest(config: InternalAxiosRequestConfig): { key: string; request: HttpFixture['request'] } {
+  const method = (config.method || 'get').toUpperCase();
+
+  const url = new URL(config.url || '', config.baseURL);
+  for (const [name, value] of Object.entries(config.params || {})) {
+    if (value !== undefined && value !== null) url.searchParams.set(name, String(value));
+  }
+  for (const name of [...url.searchParams.keys()]) {
+    if (SECRET_KEY_PATTERN.test(name)) url.searchParams.set(name, REDACTED);
+  }
+  url.searchParams.sort();
+
+  const path = url.pathname + url.search;
+  const body = config.data === undefined ? undefined : scrubSecrets(parseBody(config.data));
+
+  const key = createHash('sha256')
+    .update(JSON.stringify([method, path, body ?? null]))
+    .digest('hex')
+    .slice(0, 12);
+
+  return { key, request: { method, url: path, body } };
+}
+
+function parseBody(data: unknown): unknown {
+  if (typeof data !== 'string') return data;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+
+// GET /api/clientes/?limit=20 -> GET_api_clientes_<key>.json
+function fixtureFileName(method: string, url: string, key: string): string {
+  const path = url.split('?')[0].replace(/[^a-zA-Z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+  return `${method}_${path || 'root'}_${key}.json`;
+}
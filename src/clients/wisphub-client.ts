@@ -2,37 +2,197 @@
  * WispHub HTTP client with retry, caching, and error handling
  */
 
-import axios, { AxiosInstance, AxiosResponse, AxiosError, InternalAxiosRequestConfig } from 'axios';
-import { getConfig } from '../config/server-config.js';
+import axios, { AxiosInstance, AxiosResponse, AxiosError, AxiosRequestConfig, InternalAxiosRequestConfig } from 'axios';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { join } from 'node:path';
+import { getAccount, getConfig } from '../config/server-config.js';
 import { Logger } from '../utils/logger.js';
 import { CacheManager } from '../utils/cache.js';
-import type { ApiError } from '../types/wisphub.types.js';
+import { TokenBucketRateLimiter } from '../utils/rate-limiter.js';
+import { CircuitBreaker, CircuitOpenError } from '../utils/circuit-breaker.js';
+import { waitForShared } from '../utils/abort.js';
+import { createRecordingAdapter, createReplayAdapter } from './http-recorder.js';
+import type { CacheStats } from '../utils/cache.js';
+import type { ApiError, ApiProbeResult, CircuitBreakerStatus, EstadoApi, PaginatedApiResponse } from '../types/wisphub.types.js';
+
+/**
+ * HTTP error answer from WispHub, with its status
+ */
+export class WispHubApiError extends Error {
+  constructor(public status: number, detail: string) {
+    super(`WispHub API Error (${status}): ${detail}`);
+    this.name = 'WispHubApiError';
+  }
+
+  /**
+   * 5xx, timeouts and rate limiting may clear up; any other 4xx gets the same answer again
+   */
+  isTransient(): boolean {
+    return this.status >= 500 || this.status === 408 || this.status === 429;
+  }
+}
+
+/**
+ * Per-call options - `signal` aborts the request, its retries and backoff.
+ * `idempotencyKey` is sent as the Idempotency-Key header and makes a
+ * POST/PATCH eligible for retries.
+ */
+export interface RequestOptions {
+  signal?: AbortSignal;
+  idempotencyKey?: string;
+}
+
+/**
+ * Options for `get` - `cacheTags` label the cached response so writes can
+ * invalidate it (see `invalidateCache`)
+ */
+export interface GetOptions extends RequestOptions {
+  cacheTags?: string[];
+}
+
+/**
+ * Options for `paginate` - `maxItems` defaults to config.pagination.maxItems
+ */
+export interface PaginateOptions extends GetOptions {
+  maxItems?: number;
+  cacheTtl?: number;
+}
+
+/**
+ * How a pagination ended - `truncado` when it stopped at `maxItems` with
+ * items or a `next` page still pending
+ */
+export interface PaginateResult {
+  truncado: boolean;
+}
+
+/**
+ * Raw answer to `inspect`: status, the Allow header's methods and the body
+ */
+export interface InspectResult {
+  status: number;
+  allow: string[];
+  data: unknown;
+}
+
+const PROBE_ENDPOINT = '/api/clientes/';
+const PROBE_TIMEOUT_MS = 5000;
+
+// 429 handling: wait when Retry-After is missing, and longest wait worth retrying for
+const DEFAULT_RETRY_AFTER_MS = 1000;
+const MAX_RETRY_AFTER_MS = 30000;
+
+// Methods safe to repeat after a network error or 5xx; POST/PATCH need an idempotency key
+const IDEMPOTENT_METHODS = new Set(['get', 'head', 'options', 'put', 'delete']);
+const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+// Exponential backoff between retries, with jitter so callers don't retry in lockstep
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 10000;
+
+// GET shared by every caller asking for the same cache key while it runs
+interface InFlightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;
+  tags: string[];
+  // A write invalidated its tags while it ran: its response may predate the write
+  stale: boolean;
+}
+
+type RetryableRequestConfig = InternalAxiosRequestConfig & {
+  _retryCount?: number;
+  _skipRetry?: boolean;
+  _rateLimitRetries?: number;
+  _skipRateLimit?: boolean;
+  _skipCircuitBreaker?: boolean;
+  _circuitTrial?: boolean;
+};
 
 export class WispHubClient {
+  readonly account: string;
+  private baseUrl: string;
   private http: AxiosInstance;
   private cache: CacheManager;
   private config = getConfig();
 
-  constructor() {
-    this.cache = new CacheManager();
+  // The server builds one client per account, so these hold that tenant's whole
+  // API budget, outage state and in-flight GETs, shared by all its services
+  private limiter: TokenBucketRateLimiter;
+  private breaker: CircuitBreaker;
+  private inFlight = new Map<string, InFlightRequest>();
+
+  /**
+   * @param cuenta WispHub account to talk to (default: config.defaultAccount)
+   */
+  constructor(cuenta?: string) {
+    const account = getAccount(this.config, cuenta);
+    this.account = account.name;
+    this.baseUrl = account.baseUrl;
+
+    this.cache = new CacheManager(this.config.cacheLimits);
+
+    this.limiter = new TokenBucketRateLimiter(
+      this.config.rateLimit.requestsPerSecond,
+      this.config.rateLimit.burst
+    );
+
+    this.breaker = new CircuitBreaker(
+      this.config.circuitBreaker.failureThreshold,
+      this.config.circuitBreaker.resetTimeoutMs,
+      this.account
+    );
     
     this.http = axios.create({
-      baseURL: this.config.baseUrl,
+      baseURL: account.baseUrl,
       timeout: this.config.timeout,
       headers: {
-        'Authorization': 'Api-Key ' + this.config.apiKey,
+        'Authorization': 'Api-Key ' + account.apiKey,
         'Content-Type': 'application/json',
         'Accept': 'application/json'
       }
     });
 
+    // Record/replay of WispHub traffic (WISPHUB_RECORD / WISPHUB_REPLAY),
+    // one subdirectory per account when there are several
+    const fixturesDir = (dir: string) =>
+      Object.keys(this.config.accounts).length > 1 ? join(dir, this.account) : dir;
+
+    if (this.config.replayPath) {
+      this.http.defaults.adapter = createReplayAdapter(fixturesDir(this.config.replayPath));
+    } else if (this.config.recordPath) {
+      this.http.defaults.adapter = createRecordingAdapter(
+        fixturesDir(this.config.recordPath),
+        axios.getAdapter(this.http.defaults.adapter)
+      );
+    }
+
     this.setupInterceptors();
   }
 
   private setupInterceptors(): void {
-    // Request interceptor for logging
+    // Request interceptor for the circuit breaker, rate limiting and logging
     this.http.interceptors.request.use(
-      (config) => {
+      async (config: RetryableRequestConfig) => {
+        if (!config._skipCircuitBreaker) {
+          config._circuitTrial = this.breaker.assertCanRequest();
+        }
+
+        if (!config._skipRateLimit) {
+          try {
+            // A long Retry-After pause fails fast instead of stalling the caller
+            const pauseMs = this.limiter.getPauseRemaining();
+            if (pauseMs > MAX_RETRY_AFTER_MS) {
+              throw new WispHubApiError(429, `Rate limit pause in effect (Retry-After: ${Math.ceil(pauseMs / 1000)}s)`);
+            }
+            await this.limiter.acquire(config.signal as AbortSignal | undefined);
+          } catch (error) {
+            // Otherwise the circuit would wait out a whole reset window for a trial that was never sent
+            if (config._circuitTrial) this.breaker.releaseTrial();
+            throw error;
+          }
+        }
+
         Logger.debug('HTTP Request', {
           method: config.method?.toUpperCase(),
           url: config.url,
@@ -49,6 +209,10 @@ export class WispHubClient {
     // Response interceptor for logging and error handling
     this.http.interceptors.response.use(
       (response) => {
+        if (!(response.config as RetryableRequestConfig)._skipCircuitBreaker) {
+          this.breaker.recordSuccess();
+        }
+
         Logger.debug('HTTP Response', {
           status: response.status,
           url: response.config.url,
@@ -57,10 +221,12 @@ export class WispHubClient {
         return response;
       },
       async (error: AxiosError) => {
-        const originalRequest = error.config as InternalAxiosRequestConfig & {
-          _retry?: boolean;
-          _retryCount?: number;
-        };
+        // Errors raised before the request was sent (rate limiter, cancellation) pass through
+        if (!axios.isAxiosError(error)) {
+          return Promise.reject(error);
+        }
+
+        const originalRequest = error.config as RetryableRequestConfig | undefined;
         
         // Log error details
         Logger.error('HTTP Response Error', {
@@ -70,24 +236,71 @@ export class WispHubClient {
           data: error.response?.data
         });
 
+        // Network errors, timeouts and 5xx count against the circuit; other answers prove the API is up
+        if (!originalRequest?._skipCircuitBreaker && error.code !== AxiosError.ERR_CANCELED) {
+          if (this.isTransientError(error)) {
+            this.breaker.recordFailure();
+          } else {
+            this.breaker.recordSuccess();
+          }
+        } else if (originalRequest?._circuitTrial) {
+          // A cancelled trial says nothing about the API
+          this.breaker.releaseTrial();
+        }
+
+        // 429: honor Retry-After and hold every request sharing the limiter meanwhile
+        if (originalRequest && error.response?.status === 429) {
+          const retryAfterMs = this.parseRetryAfter(error.response.headers['retry-after']);
+          this.limiter.pauseFor(retryAfterMs);
+
+          originalRequest._rateLimitRetries = (originalRequest._rateLimitRetries || 0) + 1;
+
+          if (retryAfterMs <= MAX_RETRY_AFTER_MS && originalRequest._rateLimitRetries <= this.config.retryAttempts) {
+            Logger.warn('Rate limited by WispHub, retrying after Retry-After', {
+              url: originalRequest.url,
+              retry_after_ms: retryAfterMs,
+              attempt: originalRequest._rateLimitRetries
+            });
+            return this.http(originalRequest);
+          }
+
+          return Promise.reject(this.formatError(error));
+        }
+
         // Retry logic for 5xx errors and network issues
         if (
           originalRequest && 
-          !originalRequest._retry && 
-          this.shouldRetry(error)
+          !originalRequest._skipRetry && 
+          this.isTransientError(error)
         ) {
-          originalRequest._retry = true;
-          
-          // Exponential backoff
-          const retryDelay = Math.pow(2, (originalRequest._retryCount || 0)) * 1000;
-          await this.delay(retryDelay);
-          
-          originalRequest._retryCount = (originalRequest._retryCount || 0) + 1;
-          
-          if (originalRequest._retryCount <= this.config.retryAttempts) {
+          const attempt = (originalRequest._retryCount || 0) + 1;
+
+          if (!this.isRetryableRequest(originalRequest)) {
+            Logger.warn('Not retrying non-idempotent request', {
+              method: originalRequest.method?.toUpperCase(),
+              url: originalRequest.url
+            });
+          } else if (attempt <= this.config.retryAttempts) {
+            // No point waiting to retry once the circuit has opened
+            const circuitRetryInMs = this.breaker.getRetryInMs();
+            if (circuitRetryInMs > 0) {
+              return Promise.reject(new CircuitOpenError(circuitRetryInMs));
+            }
+
+            // Jittered exponential backoff, cut short if the caller cancels
+            const retryDelay = this.getRetryDelay(attempt);
+            try {
+              await this.delay(retryDelay, originalRequest.signal as AbortSignal | undefined);
+            } catch {
+              return Promise.reject(new Error('Request cancelled'));
+            }
+
+            originalRequest._retryCount = attempt;
             Logger.info('Retrying request', {
+              method: originalRequest.method?.toUpperCase(),
               url: originalRequest.url,
-              attempt: originalRequest._retryCount
+              attempt,
+              delay_ms: retryDelay
             });
             return this.http(originalRequest);
           }
@@ -98,13 +311,55 @@ export class WispHubClient {
     );
   }
 
-  private shouldRetry(error: AxiosError): boolean {
+  /**
+   * Failures worth retrying and counting against the circuit breaker
+   */
+  private isTransientError(error: AxiosError): boolean {
+    // Never retry a request the caller cancelled
+    if (error.code === AxiosError.ERR_CANCELED) {
+      return false;
+    }
+
     // Retry on network errors or 5xx server errors
     return !error.response || (error.response.status >= 500);
   }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  /**
+   * Repeating the request cannot apply the change twice
+   */
+  private isRetryableRequest(config: RetryableRequestConfig): boolean {
+    const method = (config.method || 'get').toLowerCase();
+    return IDEMPOTENT_METHODS.has(method) || !!config.headers?.[IDEMPOTENCY_HEADER];
+  }
+
+  /**
+   * Backoff for retry `attempt` (1-based): half the exponential delay plus
+   * a random share of the other half
+   */
+  private getRetryDelay(attempt: number): number {
+    const exponential = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+    return Math.round(exponential / 2 + Math.random() * exponential / 2);
+  }
+
+  private delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return sleep(ms, undefined, { signal });
+  }
+
+  /**
+   * Retry-After is either delay-seconds or an HTTP date
+   */
+  private parseRetryAfter(header: unknown): number {
+    if (typeof header !== 'string' || header.trim() === '') {
+      return DEFAULT_RETRY_AFTER_MS;
+    }
+
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? DEFAULT_RETRY_AFTER_MS : Math.max(0, date - Date.now());
   }
 
   private formatError(error: AxiosError): Error {
@@ -123,9 +378,22 @@ export class WispHubClient {
       const errorMessage = apiError.message || apiError.error || apiError.detail || 
                           JSON.stringify(apiError) || 'Unknown API error';
       
-      return new Error(`WispHub API Error (${error.response.status}): ${errorMessage}`);
+      if (error.response.status === 429) {
+        const retryAfterSeconds = Math.ceil(this.parseRetryAfter(error.response.headers['retry-after']) / 1000);
+        return new WispHubApiError(429, `${errorMessage} (Retry-After: ${retryAfterSeconds}s)`);
+      }
+
+      return new WispHubApiError(error.response.status, errorMessage);
+    }
+
+    if (error.response) {
+      return new WispHubApiError(error.response.status, error.response.statusText || error.message);
     }
     
+    if (error.code === AxiosError.ERR_CANCELED) {
+      return new Error('Request cancelled');
+    }
+
     if (error.code === 'ECONNABORTED') {
       return new Error('Request timeout - WispHub API is not responding');
     }
@@ -134,9 +402,9 @@ export class WispHubClient {
   }
 
   /**
-   * GET request with caching
+   * GET request with caching. Concurrent identical GETs share one HTTP call.
    */
-  async get<T>(endpoint: string, params?: object, cacheTtl?: number): Promise<T> {
+  async get<T>(endpoint: string, params?: object, cacheTtl?: number, options: GetOptions = {}): Promise<T> {
     const cacheKey = this.getCacheKey('GET', endpoint, params);
     
     // Try cache first
@@ -148,55 +416,176 @@ export class WispHubClient {
       }
     }
 
-    // Add timestamp for duration calculation
-    const requestConfig = { 
-      params,
-      metadata: { startTime: Date.now() }
-    };
-    
-    const response: AxiosResponse<T> = await this.http.get(endpoint, requestConfig);
-    
-    // Cache successful response
-    if (cacheTtl && cacheTtl > 0) {
-      this.cache.set(cacheKey, response.data, cacheTtl);
-      Logger.debug('Response cached', { endpoint, cacheKey, ttl: cacheTtl });
+    let entry = this.inFlight.get(cacheKey);
+
+    if (entry) {
+      Logger.debug('Joining in-flight request', { endpoint, cacheKey });
+    } else {
+      // The shared request has its own signal: one caller cancelling must not fail the others
+      const controller = new AbortController();
+
+      // Add timestamp for duration calculation
+      const requestConfig = { 
+        params,
+        signal: controller.signal,
+        metadata: { startTime: Date.now() }
+      };
+
+      const shared: InFlightRequest = {
+        promise: Promise.resolve(),
+        controller,
+        waiters: 0,
+        tags: options.cacheTags ?? [],
+        stale: false
+      };
+
+      shared.promise = this.http.get(endpoint, requestConfig)
+        .then((response: AxiosResponse<T>) => {
+          // Cache successful response
+          if (cacheTtl && cacheTtl > 0 && !shared.stale) {
+            this.cache.set(cacheKey, response.data, cacheTtl, shared.tags);
+            Logger.debug('Response cached', { endpoint, cacheKey, ttl: cacheTtl });
+          }
+          return response.data;
+        })
+        .finally(() => {
+          if (this.inFlight.get(cacheKey) === shared) this.inFlight.delete(cacheKey);
+        });
+
+      // Every waiter may have cancelled by the time it settles
+      shared.promise.catch(() => {});
+
+      entry = shared;
+      this.inFlight.set(cacheKey, entry);
+    }
+
+    entry.waiters++;
+    try {
+      return await waitForShared(entry.promise as Promise<T>, options.signal);
+    } finally {
+      // Abort the HTTP call only once nobody is waiting for it
+      entry.waiters--;
+      if (entry.waiters === 0 && options.signal?.aborted) {
+        entry.controller.abort();
+        // A caller arriving now must start afresh, not join the cancelled request
+        if (this.inFlight.get(cacheKey) === entry) this.inFlight.delete(cacheKey);
+      }
     }
-    
-    return response.data;
   }
 
   /**
-   * POST request (no caching)
+   * POST request (no caching; retried only with an idempotency key)
    */
-  async post<T>(endpoint: string, data?: object): Promise<T> {
-    const response: AxiosResponse<T> = await this.http.post(endpoint, data);
+  async post<T>(endpoint: string, data?: object, options: RequestOptions = {}): Promise<T> {
+    const response: AxiosResponse<T> = await this.http.post(endpoint, data, this.getWriteConfig(options));
     return response.data;
   }
 
   /**
    * PUT request (no caching)
    */
-  async put<T>(endpoint: string, data?: object): Promise<T> {
-    const response: AxiosResponse<T> = await this.http.put(endpoint, data);
+  async put<T>(endpoint: string, data?: object, options: RequestOptions = {}): Promise<T> {
+    const response: AxiosResponse<T> = await this.http.put(endpoint, data, this.getWriteConfig(options));
     return response.data;
   }
 
   /**
-   * PATCH request (no caching)
+   * PATCH request (no caching; retried only with an idempotency key)
    */
-  async patch<T>(endpoint: string, data?: object): Promise<T> {
-    const response: AxiosResponse<T> = await this.http.patch(endpoint, data);
+  async patch<T>(endpoint: string, data?: object, options: RequestOptions = {}): Promise<T> {
+    const response: AxiosResponse<T> = await this.http.patch(endpoint, data, this.getWriteConfig(options));
     return response.data;
   }
 
   /**
    * DELETE request (no caching)
    */
-  async delete<T>(endpoint: string): Promise<T> {
-    const response: AxiosResponse<T> = await this.http.delete(endpoint);
+  async delete<T>(endpoint: string, options: RequestOptions = {}): Promise<T> {
+    const response: AxiosResponse<T> = await this.http.delete(endpoint, this.getWriteConfig(options));
     return response.data;
   }
 
+  /**
+   * Iterate over every item of a list endpoint, following `next` links until
+   * the last page or `maxItems`. Endpoints that return a bare array are
+   * yielded as a single page. Returns whether the cap cut the listing short.
+   */
+  async *paginate<T>(endpoint: string, params?: object, options: PaginateOptions = {}): AsyncGenerator<T, PaginateResult> {
+    const maxItems = options.maxItems ?? this.config.pagination.maxItems;
+    const visited = new Set<string>();
+    let url: string | null = endpoint;
+    let pageParams = params;
+    let yielded = 0;
+
+    while (url) {
+      const page: T[] | PaginatedApiResponse<T> = await this.get(url, pageParams, options.cacheTtl, options);
+      const items = Array.isArray(page) ? page : page.results || [];
+
+      for (const item of items) {
+        if (yielded >= maxItems) return { truncado: true };
+        yield item;
+        yielded++;
+      }
+
+      if (Array.isArray(page) || items.length === 0) return { truncado: false };
+
+      // `next` already carries the query string, including the original filters
+      url = this.resolveNextPage(page.next);
+      if (url && visited.has(url)) {
+        Logger.warn('Pagination loop detected, stopping', { endpoint, next: url });
+        return { truncado: false };
+      }
+      if (url && yielded >= maxItems) return { truncado: true };
+      if (url) visited.add(url);
+      pageParams = undefined;
+    }
+
+    return { truncado: false };
+  }
+
+  /**
+   * Every item `paginate` yields, plus whether the cap cut the listing short
+   */
+  async paginateAll<T>(endpoint: string, params?: object, options: PaginateOptions = {}): Promise<PaginateResult & { items: T[] }> {
+    const items: T[] = [];
+    const pages = this.paginate<T>(endpoint, params, options);
+
+    let next = await pages.next();
+    while (!next.done) {
+      items.push(next.value);
+      next = await pages.next();
+    }
+
+    return { items, truncado: next.value.truncado };
+  }
+
+  /**
+   * Absolute URL of the next page, or null when there is none. Links to
+   * another host are not followed so the API key never leaves WispHub.
+   */
+  private resolveNextPage(next: string | null | undefined): string | null {
+    if (!next) return null;
+
+    const base = new URL(this.baseUrl);
+    const url = new URL(next, base);
+    if (url.origin !== base.origin) {
+      Logger.warn('Ignoring pagination link to another host', { next });
+      return null;
+    }
+
+    return url.href;
+  }
+
+  /**
+   * Axios config for a write request, with the idempotency key header if given
+   */
+  private getWriteConfig(options: RequestOptions): AxiosRequestConfig {
+    return {
+      signal: options.signal,
+      headers: options.idempotencyKey ? { [IDEMPOTENCY_HEADER]: options.idempotencyKey } : undefined
+    };
+  }
+
   /**
    * Generate cache key for request
    */
@@ -205,6 +594,23 @@ export class WispHubClient {
     return `${method}:${endpoint}:${paramString}`;
   }
 
+  /**
+   * Drop cached GETs labelled with any of `tags`, after a write changed those
+   * entities. GETs still running with those tags are not cached, and later
+   * callers no longer join them.
+   */
+  invalidateCache(tags: string[]): void {
+    for (const [cacheKey, entry] of this.inFlight) {
+      if (entry.tags.some(tag => tags.includes(tag))) {
+        entry.stale = true;
+        this.inFlight.delete(cacheKey);
+      }
+    }
+
+    const deleted = this.cache.invalidateTags(tags);
+    Logger.debug('Cache invalidated', { tags, deleted });
+  }
+
   /**
    * Clear cache (useful for testing or forced refresh)
    */
@@ -216,7 +622,85 @@ export class WispHubClient {
   /**
    * Get cache stats for monitoring
    */
-  getCacheStats(): object {
+  getCacheStats(): CacheStats {
     return this.cache.getStats();
   }
+
+  /**
+   * Circuit breaker state of this account
+   */
+  getCircuitStatus(): CircuitBreakerStatus {
+    return this.breaker.getStatus();
+  }
+
+  /**
+   * Cheap reachability probe: one uncached, unretried list request.
+   * Any HTTP status counts as reachable; only the status tells whether
+   * the key is accepted.
+   */
+  async probe(options: RequestOptions = {}): Promise<ApiProbeResult> {
+    const start = Date.now();
+
+    const requestConfig: AxiosRequestConfig & { _skipRetry: boolean; _skipRateLimit: boolean; _skipCircuitBreaker: boolean } = {
+      params: { limit: 1 },
+      signal: options.signal,
+      timeout: PROBE_TIMEOUT_MS,
+      validateStatus: () => true,
+      _skipRetry: true, // a single attempt
+      _skipRateLimit: true, // report the API state even while throttled
+      _skipCircuitBreaker: true // ...and while the circuit is open
+    };
+
+    try {
+      const response = await this.http.get(PROBE_ENDPOINT, requestConfig);
+
+      return {
+        estado: this.probeStatus(response.status),
+        reachable: true,
+        status: response.status,
+        latency_ms: Date.now() - start
+      };
+    } catch (error) {
+      return {
+        estado: 'unreachable',
+        reachable: false,
+        latency_ms: Date.now() - start,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * One uncached, unretried OPTIONS or GET that resolves with any HTTP
+   * status, for capability discovery. Network errors still reject.
+   */
+  async inspect(method: 'OPTIONS' | 'GET', endpoint: string, params?: object, options: RequestOptions = {}): Promise<InspectResult> {
+    const requestConfig: AxiosRequestConfig & { _skipRetry: boolean; _skipCircuitBreaker: boolean } = {
+      method,
+      url: endpoint,
+      params,
+      signal: options.signal,
+      timeout: PROBE_TIMEOUT_MS,
+      validateStatus: () => true,
+      _skipRetry: true,
+      // Every status resolves here, so a 5xx would otherwise count as a success
+      _skipCircuitBreaker: true
+    };
+
+    const response = await this.http.request(requestConfig);
+    const allow = String(response.headers['allow'] ?? '')
+      .split(',')
+      .map(name => name.trim().toUpperCase())
+      .filter(Boolean);
+
+    return { status: response.status, allow, data: response.data };
+  }
+
+  private probeStatus(status: number): EstadoApi {
+    if (status < 400) return 'ok';
+    if (status === 401 || status === 403) return 'auth_error';
+    if (status === 429) return 'rate_limited';
+    if (status >= 500) return 'server_error';
+    return 'client_error';
+  }
 }
\ No newline at end of file
@@ -0,0 +1,180 @@
+/**
+ * Argument autocompletion (completion/complete)
+ * Suggests cliente IDs, zonas, planes and técnicos for prompt arguments and
+ * resource template variables, sourced from /api/clientes/
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { ClienteService } from '../services/cliente.service.js';
+import { prompts } from '../prompts/customer-care-prompts.js';
+import { resourceTemplates } from '../resources/wisphub-resources.js';
+import { DataTransformer } from '../utils/data-transformer.js';
+import { Logger } from '../utils/logger.js';
+import { getConfig } from '../config/server-config.js';
+import type { Cliente } from '../types/wisphub.types.js';
+
+// MCP caps a completion response at 100 values
+const MAX_VALUES = 100;
+const MIN_SEARCH_LENGTH = 2;
+const CLIENTE_SEARCH_LIMIT = 20;
+const CATALOG_PAGE_SIZE = 100;
+const CATALOG_MAX_PAGES = 5;
+
+type CompletionRef =
+  | { type: 'ref/prompt'; name: string }
+  | { type: 'ref/resource'; uri: string };
+
+interface Catalog {
+  builtAt: number;
+  zonas: Map<string, string>;
+  planes: Set<string>;
+  tecnicos: Map<string, string>;
+}
+
+type Completer = (clienteService: ClienteService, value: string, signal?: AbortSignal) => Promise<string[]>;
+
+// One catalog per service, i.e. per account
+const catalogs = new WeakMap<ClienteService, Catalog>();
+
+/**
+ * Completers by argument name
+ */
+const completers: Record<string, Completer> = {
+  id_servicio: completeClienteId,
+  zona: async (clienteService, value, signal) => matchCatalogEntries((await getCatalog(clienteService, signal)).zonas, value),
+  plan: async (clienteService, value, signal) => matchValues([...(await getCatalog(clienteService, signal)).planes], value),
+  tecnico: async (clienteService, value, signal) => matchCatalogEntries((await getCatalog(clienteService, signal)).tecnicos, value),
+  prioridad: async (_clienteService, value) => matchValues(['baja', 'normal', 'alta', 'muy_alta'], value)
+};
+
+/**
+ * completion/complete - resolve the reference and run the argument's completer
+ * against `clienteService`'s account
+ */
+export async function completeArgument(
+  clienteService: ClienteService,
+  ref: CompletionRef,
+  argument: { name: string; value: string },
+  signal?: AbortSignal
+) {
+  const argumentNames = getReferenceArguments(ref);
+  const completer = argumentNames.includes(argument.name) ? completers[argument.name] : undefined;
+
+  const values = completer ? await completer(clienteService, argument.value, signal) : [];
+
+  return {
+    completion: {
+      values: values.slice(0, MAX_VALUES),
+      total: values.length,
+      hasMore: values.length > MAX_VALUES
+    }
+  };
+}
+
+/**
+ * Argument names a prompt or resource template accepts
+ */
+function getReferenceArguments(ref: CompletionRef): string[] {
+  if (ref.type === 'ref/prompt') {
+    const prompt = prompts.find(p => p.name === ref.name);
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${ref.name}`);
+    }
+    return Object.keys(prompt.argsSchema.shape);
+  }
+
+  const template = resourceTemplates.find(t => t.uriTemplate === ref.uri);
+  if (!template) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown resource template: ${ref.uri}`);
+  }
+  return [...template.uriTemplate.matchAll(/\{(\w+)\}/g)].map(match => match[1]);
+}
+
+/**
+ * Cliente IDs matching a partial name or email
+ */
+async function completeClienteId(clienteService: ClienteService, value: string, signal?: AbortSignal): Promise<string[]> {
+  if (value.trim().length < MIN_SEARCH_LENGTH) return [];
+
+  // Already an ID - nothing to search for
+  if (/^\d+$/.test(value.trim())) return [value.trim()];
+
+  const result = await clienteService.consultarClientes(
+    { search: value, limit: CLIENTE_SEARCH_LIMIT, offset: 0 },
+    signal
+  );
+
+  if (!result.success) {
+    Logger.warn('Cliente completion failed', { value, error: result.error });
+    return [];
+  }
+
+  return (result.data || []).map(cliente => String(cliente.id_servicio));
+}
+
+/**
+ * Zonas, planes and técnicos seen in the first pages of clientes, rebuilt
+ * after the catalog cache TTL
+ */
+async function getCatalog(clienteService: ClienteService, signal?: AbortSignal): Promise<Catalog> {
+  const ttl = getConfig().cache.planes;
+  const catalog = catalogs.get(clienteService);
+  if (catalog && Date.now() - catalog.builtAt < ttl) {
+    return catalog;
+  }
+
+  const clientes: Cliente[] = [];
+  for (let page = 0; page < CATALOG_MAX_PAGES; page++) {
+    const result = await clienteService.consultarClientes(
+      { limit: CATALOG_PAGE_SIZE, offset: page * CATALOG_PAGE_SIZE },
+      signal
+    );
+
+    if (!result.success) {
+      Logger.warn('Completion catalog page failed', { page, error: result.error });
+      break;
+    }
+
+    const pageClientes = result.data || [];
+    clientes.push(...pageClientes);
+    if (pageClientes.length < CATALOG_PAGE_SIZE) break;
+  }
+
+  const built: Catalog = {
+    builtAt: Date.now(),
+    zonas: new Map(),
+    planes: new Set(),
+    tecnicos: new Map()
+  };
+
+  for (const cliente of clientes) {
+    if (cliente.zona) built.zonas.set(String(cliente.zona), cliente.zona_nombre);
+    if (cliente.plan) built.planes.add(cliente.plan);
+    if (cliente.tecnico?.id) built.tecnicos.set(String(cliente.tecnico.id), cliente.tecnico.nombre);
+  }
+
+  // Only keep a catalog that actually has data, so a failed fetch is retried
+  if (clientes.length > 0) {
+    catalogs.set(clienteService, built);
+  }
+
+  return built;
+}
+
+/**
+ * Helper functions
+ */
+function matchValues(values: string[], value: string): string[] {
+  const query = DataTransformer.prepareSearchQuery(value);
+  return values
+    .filter(candidate => DataTransformer.prepareSearchQuery(candidate).includes(query))
+    .sort();
+}
+
+// Entries are id -> nombre; match either and suggest the id
+function matchCatalogEntries(entries: Map<string, string>, value: string): string[] {
+  const query = DataTransformer.prepareSearchQuery(value);
+  return [...entries]
+    .filter(([id, nombre]) => id.startsWith(query) || DataTransformer.prepareSearchQuery(nombre).includes(query))
+    .map(([id]) => id);
+}
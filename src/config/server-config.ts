@@ -2,17 +2,59 @@
  * Server configuration and environment variables
  */
 
-export interface ServerConfig {
+export type TransportType = 'stdio' | 'http';
+
+export type ServerMode = 'full' | 'readonly';
+
+/**
+ * Operator profile: tools it may call ('*' for all) and, optionally,
+ * the only arguments it may send to a given tool
+ */
+export interface OperatorProfile {
+  tools: string[];
+  fields?: Record<string, string[]>;
+}
+
+/**
+ * WispHub tenant (one per ISP brand) the server can act on
+ */
+export interface WispHubAccount {
   apiKey: string;
   baseUrl: string;
+}
+
+export interface ServerConfig {
+  accounts: Record<string, WispHubAccount>;
+  defaultAccount: string;
   timeout: number;
   retryAttempts: number;
+  rateLimit: {
+    requestsPerSecond: number;
+    burst: number;
+  };
+  pagination: {
+    maxItems: number;
+  };
+  circuitBreaker: {
+    failureThreshold: number;
+    resetTimeoutMs: number;
+  };
+  mode: ServerMode;
+  recordPath?: string;
+  replayPath?: string;
+  profile?: string;
+  profiles: Record<string, OperatorProfile>;
   cache: {
     clientes: number;
     tickets: number; 
     saldos: number;
     planes: number;
   };
+  cacheLimits: {
+    maxEntries: number;
+    maxBytes: number;
+    sweepIntervalMs: number;
+  };
   wisphub: {
     defaultValues?: {
       asuntoDefault?: number;
@@ -21,22 +63,139 @@ export interface ServerConfig {
       departamentoSoporte?: number;
     };
   };
+  transport: {
+    type: TransportType;
+    host: string;
+    port: number;
+    authToken?: string;
+    allowedHosts: string[];
+    sessionIdleMs: number;
+  };
+}
+
+/**
+ * Built-in operator profiles, extended or overridden by WISPHUB_PROFILES (JSON)
+ */
+const defaultProfiles: Record<string, OperatorProfile> = {
+  soporte: {
+    tools: [
+      'consultar_clientes',
+      'obtener_cliente',
+      'consultar_saldo_cliente',
+      'obtener_tickets_cliente',
+      'crear_ticket',
+      'actualizar_ticket',
+      'diagnostico_servidor'
+    ],
+    fields: {
+      actualizar_ticket: ['ticketId', 'estado', 'tecnico', 'notas']
+    }
+  },
+  cobranza: {
+    tools: [
+      'consultar_clientes',
+      'obtener_cliente',
+      'consultar_saldo_cliente',
+      'obtener_tickets_cliente',
+      'actualizar_cliente',
+      'cambiar_estado_servicio',
+      'diagnostico_servidor'
+    ],
+    fields: {
+      actualizar_cliente: ['id_servicio', 'comentarios']
+    }
+  },
+  supervisor: {
+    tools: ['*']
+  }
+};
+
+function loadProfiles(): Record<string, OperatorProfile> {
+  if (!process.env.WISPHUB_PROFILES) {
+    return defaultProfiles;
+  }
+
+  try {
+    return { ...defaultProfiles, ...JSON.parse(process.env.WISPHUB_PROFILES) };
+  } catch (error) {
+    throw new Error(`WISPHUB_PROFILES must be valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// Name of the account built from WISPHUB_API_KEY / WISPHUB_BASE_URL
+export const LEGACY_ACCOUNT = 'default';
+
+const DEFAULT_BASE_URL = 'https://app.wisphub.net';
+
+/**
+ * Named accounts from WISPHUB_ACCOUNTS (JSON), plus the legacy single
+ * account when WISPHUB_API_KEY is set or no other account is defined
+ */
+function loadAccounts(): Record<string, WispHubAccount> {
+  const legacy: WispHubAccount = {
+    apiKey: process.env.WISPHUB_API_KEY || '',
+    baseUrl: process.env.WISPHUB_BASE_URL || DEFAULT_BASE_URL
+  };
+
+  if (!process.env.WISPHUB_ACCOUNTS) {
+    return { [LEGACY_ACCOUNT]: legacy };
+  }
+
+  let parsed: Record<string, Partial<WispHubAccount>>;
+  try {
+    parsed = JSON.parse(process.env.WISPHUB_ACCOUNTS);
+  } catch (error) {
+    throw new Error(`WISPHUB_ACCOUNTS must be valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const accounts: Record<string, WispHubAccount> = process.env.WISPHUB_API_KEY ? { [LEGACY_ACCOUNT]: legacy } : {};
+  for (const [name, account] of Object.entries(parsed || {})) {
+    accounts[name] = {
+      apiKey: account?.apiKey || '',
+      baseUrl: account?.baseUrl || legacy.baseUrl
+    };
+  }
+
+  return accounts;
 }
 
+const accounts = loadAccounts();
+
 /**
  * Default configuration
  */
 export const defaultConfig: ServerConfig = {
-  apiKey: process.env.WISPHUB_API_KEY || '',
-  baseUrl: process.env.WISPHUB_BASE_URL || 'https://app.wisphub.net',
+  accounts,
+  defaultAccount: process.env.WISPHUB_DEFAULT_ACCOUNT || (accounts[LEGACY_ACCOUNT] ? LEGACY_ACCOUNT : Object.keys(accounts)[0] || ''),
   timeout: 30000, // 30 seconds
   retryAttempts: 3,
+  rateLimit: {
+    requestsPerSecond: parseFloat(process.env.WISPHUB_RATE_LIMIT_RPS || '5'),
+    burst: parseInt(process.env.WISPHUB_RATE_LIMIT_BURST || '10')
+  },
+  pagination: {
+    maxItems: parseInt(process.env.WISPHUB_PAGINATION_MAX_ITEMS || '1000')
+  },
+  circuitBreaker: {
+    failureThreshold: parseInt(process.env.WISPHUB_CIRCUIT_FAILURES || '5'),
+    resetTimeoutMs: parseInt(process.env.WISPHUB_CIRCUIT_RESET_MS || '30000')
+  },
+  mode: (process.env.WISPHUB_MODE as ServerMode) || 'full',
+  recordPath: process.env.WISPHUB_RECORD || undefined,
+  replayPath: process.env.WISPHUB_REPLAY || undefined,
+  profile: process.env.WISPHUB_PROFILE || undefined,
+  profiles: loadProfiles(),
   cache: {
     clientes: 300000,  // 5 minutes
     tickets: 300000,   // 5 minutes  
     saldos: 60000,     // 1 minute
     planes: 3600000    // 1 hour
   },
+  cacheLimits: {
+    maxEntries: parseInt(process.env.WISPHUB_CACHE_MAX_ENTRIES || '1000'),
+    maxBytes: parseFloat(process.env.WISPHUB_CACHE_MAX_MB || '50') * 1024 * 1024,
+    sweepIntervalMs: parseInt(process.env.WISPHUB_CACHE_SWEEP_MS || '60000')
+  },
   wisphub: {
     defaultValues: {
       asuntoDefault: parseInt(process.env.WISPHUB_ASUNTO_DEFAULT || '1'),
@@ -44,6 +203,14 @@ export const defaultConfig: ServerConfig = {
       tecnicoDefault: parseInt(process.env.WISPHUB_TECNICO_DEFAULT || '1'),
       departamentoSoporte: parseInt(process.env.WISPHUB_DEPARTAMENTO_SOPORTE || '1')
     }
+  },
+  transport: {
+    type: (process.env.WISPHUB_TRANSPORT as TransportType) || 'stdio',
+    host: process.env.WISPHUB_HTTP_HOST || '127.0.0.1',
+    port: parseInt(process.env.WISPHUB_HTTP_PORT || '3000'),
+    authToken: process.env.WISPHUB_HTTP_TOKEN || undefined,
+    allowedHosts: (process.env.WISPHUB_HTTP_ALLOWED_HOSTS || '').split(',').map(host => host.trim()).filter(Boolean),
+    sessionIdleMs: parseInt(process.env.WISPHUB_HTTP_SESSION_IDLE_MS || '1800000')
   }
 };
 
@@ -51,13 +218,105 @@ export const defaultConfig: ServerConfig = {
  * Validate required configuration
  */
 export function validateConfig(config: ServerConfig): void {
-  if (!config.apiKey) {
-    throw new Error('WISPHUB_API_KEY environment variable is required');
+  const accountNames = Object.keys(config.accounts);
+  if (accountNames.length === 0) {
+    throw new Error('WISPHUB_ACCOUNTS must define at least one account');
+  }
+
+  for (const [name, account] of Object.entries(config.accounts)) {
+    if (!/^[a-z0-9_-]+$/i.test(name)) {
+      throw new Error(`Invalid account name "${name}" (letters, digits, "_" and "-" only)`);
+    }
+
+    // Replays never reach WispHub, so they need no key
+    if (!account.apiKey && !config.replayPath) {
+      throw new Error(name === LEGACY_ACCOUNT
+        ? 'WISPHUB_API_KEY environment variable is required'
+        : `Account "${name}" in WISPHUB_ACCOUNTS needs an "apiKey"`);
+    }
+
+    if (!account.baseUrl) {
+      throw new Error('WISPHUB_BASE_URL environment variable is required');
+    }
+  }
+
+  if (!config.accounts[config.defaultAccount]) {
+    throw new Error(`Unknown WISPHUB_DEFAULT_ACCOUNT "${config.defaultAccount}" (available: ${accountNames.join(', ')})`);
+  }
+
+  if (config.recordPath && config.replayPath) {
+    throw new Error('WISPHUB_RECORD and WISPHUB_REPLAY cannot be used together');
+  }
+
+  if (!(config.rateLimit.requestsPerSecond >= 0)) {
+    throw new Error('WISPHUB_RATE_LIMIT_RPS must be a non-negative number (0 disables the limiter)');
+  }
+
+  if (!Number.isInteger(config.rateLimit.burst) || config.rateLimit.burst < 1) {
+    throw new Error('WISPHUB_RATE_LIMIT_BURST must be a positive integer');
+  }
+
+  if (!Number.isInteger(config.pagination.maxItems) || config.pagination.maxItems < 1) {
+    throw new Error('WISPHUB_PAGINATION_MAX_ITEMS must be a positive integer');
+  }
+
+  if (!Number.isInteger(config.circuitBreaker.failureThreshold) || config.circuitBreaker.failureThreshold < 1) {
+    throw new Error('WISPHUB_CIRCUIT_FAILURES must be a positive integer');
+  }
+
+  if (!Number.isInteger(config.circuitBreaker.resetTimeoutMs) || config.circuitBreaker.resetTimeoutMs < 1000) {
+    throw new Error('WISPHUB_CIRCUIT_RESET_MS must be an integer of at least 1000');
+  }
+
+  if (!Number.isInteger(config.cacheLimits.maxEntries) || config.cacheLimits.maxEntries < 1) {
+    throw new Error('WISPHUB_CACHE_MAX_ENTRIES must be a positive integer');
+  }
+
+  if (!(config.cacheLimits.maxBytes > 0)) {
+    throw new Error('WISPHUB_CACHE_MAX_MB must be a positive number');
+  }
+
+  if (!Number.isInteger(config.cacheLimits.sweepIntervalMs) || config.cacheLimits.sweepIntervalMs < 1000) {
+    throw new Error('WISPHUB_CACHE_SWEEP_MS must be an integer of at least 1000');
+  }
+
+  if (config.mode !== 'full' && config.mode !== 'readonly') {
+    throw new Error(`Invalid WISPHUB_MODE "${config.mode}" (expected "full" or "readonly")`);
+  }
+
+  if (config.profile && !config.profiles[config.profile]) {
+    throw new Error(`Unknown WISPHUB_PROFILE "${config.profile}" (available: ${Object.keys(config.profiles).join(', ')})`);
+  }
+
+  for (const [name, profile] of Object.entries(config.profiles)) {
+    if (!Array.isArray(profile?.tools)) {
+      throw new Error(`Profile "${name}" must define a "tools" array`);
+    }
+  }
+
+  if (config.transport.type !== 'stdio' && config.transport.type !== 'http') {
+    throw new Error(`Invalid transport "${config.transport.type}" (expected "stdio" or "http")`);
+  }
+
+  if (!Number.isInteger(config.transport.port) || config.transport.port <= 0) {
+    throw new Error('WISPHUB_HTTP_PORT must be a positive integer');
   }
-  
-  if (!config.baseUrl) {
-    throw new Error('WISPHUB_BASE_URL environment variable is required');
+
+  if (!Number.isInteger(config.transport.sessionIdleMs) || config.transport.sessionIdleMs <= 0) {
+    throw new Error('WISPHUB_HTTP_SESSION_IDLE_MS must be a positive integer');
+  }
+}
+
+/**
+ * Settings for `cuenta`, or for the default account when omitted
+ */
+export function getAccount(config: ServerConfig, cuenta?: string): WispHubAccount & { name: string } {
+  const name = cuenta || config.defaultAccount;
+  const account = config.accounts[name];
+  if (!account) {
+    throw new Error(`Unknown WispHub account "${name}" (available: ${Object.keys(config.accounts).join(', ')})`);
   }
+  return { name, ...account };
 }
 
 /**
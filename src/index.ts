@@ -7,10 +7,34 @@
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
-import { z } from 'zod';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  SetLevelRequestSchema,
+  CompleteRequestSchema,
+  ErrorCode,
+  McpError
+} from '@modelcontextprotocol/sdk/types.js';
+import { getConfig, getAccount } from './config/server-config.js';
+import type { ServerConfig, TransportType } from './config/server-config.js';
+import { startHttpTransport } from './transports/http-transport.js';
+import { ErrorHandler } from './utils/error-handler.js';
+import { Logger } from './utils/logger.js';
+import { createLogForwarder } from './utils/log-forwarding.js';
+import { isToolAllowed, checkToolPermission } from './utils/permissions.js';
+import { WispHubClient } from './clients/wisphub-client.js';
+import { getEndpointCapabilities } from './clients/endpoint-capabilities.js';
+import { createAccountServices } from './services/account-services.js';
+import type { ServiceResolver } from './services/account-services.js';
 
 // Import tools
+import { assertUniqueToolNames } from './tools/tool-definition.js';
+import type { ToolDefinition, ToolHandlerResult } from './tools/tool-definition.js';
 import { consultarClientesTool } from './tools/clientes/consultar-clientes.js';
 import { obtenerClienteTool } from './tools/clientes/obtener-cliente.js';
 import { consultarSaldoTool } from './tools/clientes/consultar-saldo.js';
@@ -19,23 +43,21 @@ import { crearTicketTool } from './tools/tickets/crear-ticket.js';
 import { obtenerTicketsClienteTool } from './tools/tickets/obtener-tickets-cliente.js';
 import { actualizarTicketTool } from './tools/tickets/actualizar-ticket.js';
 import { cambiarEstadoServicioTool } from './tools/servicios/cambiar-estado-servicio.js';
+import { diagnosticoServidorTool } from './tools/servidor/diagnostico-servidor.js';
 
-/**
- * Server configuration
- */
-const server = new Server({
-  name: 'wisphub-customercare',
-  version: '1.0.0'
-}, {
-  capabilities: {
-    tools: {}
-  }
-});
+// Import resources
+import { resourceTemplates, listClienteResources, readResource } from './resources/wisphub-resources.js';
+
+// Import prompts
+import { prompts, describePrompt, getPrompt } from './prompts/customer-care-prompts.js';
+
+// Import completions
+import { completeArgument } from './completions/argument-completions.js';
 
 /**
  * Tool registration
  */
-const tools = [
+const tools: ToolDefinition[] = [
   // Client tools
   consultarClientesTool,
   obtenerClienteTool,
@@ -48,54 +70,314 @@ const tools = [
   actualizarTicketTool,
   
   // Service tools
-  cambiarEstadoServicioTool
+  cambiarEstadoServicioTool,
+
+  // Server tools
+  diagnosticoServidorTool
 ];
 
 /**
- * List tools handler
+ * Composition root - one WispHub client (and so one cache, rate limiter and
+ * circuit breaker) per account, shared by that account's services, which are
+ * handed to tools, resources and completions
  */
-server.setRequestHandler(ListToolsRequestSchema, async () => {
+export function createServiceResolver(config: ServerConfig): ServiceResolver {
+  const servicesByAccount = new Map(
+    Object.keys(config.accounts).map(cuenta => [cuenta, createAccountServices(new WispHubClient(cuenta))])
+  );
+
+  return cuenta => servicesByAccount.get(getAccount(config, cuenta).name)!;
+}
+
+/**
+ * Tools exposed by this deployment - WISPHUB_MODE=readonly keeps only
+ * the ones annotated as read-only, WISPHUB_PROFILE the profile's whitelist
+ */
+function isToolEnabled(tool: ToolDefinition): boolean {
+  const config = getConfig();
+  if (config.mode === 'readonly' && tool.annotations.readOnlyHint !== true) {
+    return false;
+  }
+  return isToolAllowed(activeProfile(config), tool.name);
+}
+
+/**
+ * Reason a call must be rejected, or undefined when it is allowed
+ */
+function getToolDenial(tool: ToolDefinition, args?: Record<string, unknown>): string | undefined {
+  const config = getConfig();
+  if (config.mode === 'readonly' && tool.annotations.readOnlyHint !== true) {
+    return 'servidor en modo solo lectura';
+  }
+  return checkToolPermission(activeProfile(config), tool.name, args);
+}
+
+function activeProfile(config: ServerConfig) {
+  return config.profile ? config.profiles[config.profile] : undefined;
+}
+
+/**
+ * Map a handler result to the MCP CallToolResult shape. With several
+ * accounts configured, the text names the account the tool acted on.
+ */
+function toCallToolResult(result: ToolHandlerResult) {
+  if ('isError' in result) {
+    return {
+      content: [{ type: 'text' as const, text: result.text }],
+      isError: true,
+      _meta: { errorCode: result.code }
+    };
+  }
+
+  const cuenta = (result.structuredContent as { cuenta?: string }).cuenta;
+  const text = cuenta && Object.keys(getConfig().accounts).length > 1
+    ? `🏢 **Cuenta:** ${cuenta}\n\n${result.text}`
+    : result.text;
+
   return {
-    tools: tools.map(tool => ({
-      name: tool.name,
-      description: tool.description,
-      inputSchema: tool.inputSchema || {}
-    }))
+    content: [{ type: 'text' as const, text }],
+    structuredContent: result.structuredContent
   };
-});
+}
 
 /**
- * Call tool handler
+ * Reason the `cuenta` argument is unusable, or undefined when it names a
+ * configured account (or is omitted)
  */
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-  
+function getAccountError(args?: Record<string, unknown>): string | undefined {
+  if (typeof args?.cuenta !== 'string') return undefined;
+
+  try {
+    getAccount(getConfig(), args.cuenta);
+    return undefined;
+  } catch {
+    return `cuenta desconocida "${args.cuenta}" (disponibles: ${Object.keys(getConfig().accounts).join(', ')})`;
+  }
+}
+
+/**
+ * Dispatch a tool call: permission and account checks, then the handler
+ */
+async function callTool(services: ServiceResolver, name: string, args?: Record<string, unknown>, signal?: AbortSignal) {
   const tool = tools.find(t => t.name === name);
   if (!tool) {
-    throw new Error(`Unknown tool: ${name}`);
+    throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${name}`);
   }
-  
+
+  const denial = getToolDenial(tool, args);
+  if (denial) {
+    Logger.warn('Tool call denied', {
+      tool: name,
+      profile: getConfig().profile,
+      reason: denial
+    });
+    return toCallToolResult(ErrorHandler.toToolError(ErrorHandler.createPermissionError(name, denial)));
+  }
+
+  const accountError = getAccountError(args);
+  if (accountError) {
+    return toCallToolResult(ErrorHandler.toToolError(ErrorHandler.createValidationError(accountError)));
+  }
+
   try {
-    const result = await tool.handler(args);
+    return toCallToolResult(await tool.handler(args, { services, signal }));
+  } catch (error) {
+    // Handlers report their own failures; this only catches the unexpected
+    return toCallToolResult(ErrorHandler.handleError(error, { tool: name, operation: 'call_tool' }));
+  }
+}
+
+/**
+ * Server factory - stdio uses a single instance, HTTP builds one per session.
+ * All instances share the same `tools` array, handlers and services.
+ */
+export function createServer(services: ServiceResolver): Server {
+  const server = new Server({
+    name: 'wisphub-customercare',
+    version: '1.0.0'
+  }, {
+    capabilities: {
+      tools: {},
+      resources: {},
+      prompts: {},
+      logging: {},
+      completions: {}
+    }
+  });
+
+  /**
+   * Logging - Logger entries produced while serving this client's requests
+   * are mirrored as notifications/message
+   */
+  const logForwarder = createLogForwarder(server);
+
+  server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    logForwarder.setLevel(request.params.level);
+    return {};
+  });
+
+  /**
+   * List tools handler
+   */
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
     return {
-      content: [
-        {
-          type: 'text',
-          text: typeof result === 'string' ? result : JSON.stringify(result, null, 2)
-        }
-      ]
+      tools: tools.filter(isToolEnabled).map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        annotations: tool.annotations,
+        inputSchema: tool.inputSchema,
+        outputSchema: tool.outputSchema
+      }))
     };
-  } catch (error) {
-    throw new Error(`Tool ${name} failed: ${error instanceof Error ? error.message : String(error)}`);
+  });
+
+  /**
+   * Call tool handler
+   */
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const sink = logForwarder.sinkFor({
+      tool: request.params.name,
+      request_id: String(extra.requestId)
+    });
+    return Logger.withSink(sink, () =>
+      callTool(services, request.params.name, request.params.arguments, extra.signal)
+    );
+  });
+
+  /**
+   * Resource handlers - resources belong to the default account
+   */
+  server.setRequestHandler(ListResourcesRequestSchema, async (request, extra) => {
+    return Logger.withSink(logForwarder.sinkFor({ request_id: String(extra.requestId) }), () =>
+      listClienteResources(services(), request.params?.cursor, extra.signal)
+    );
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return {
+      resourceTemplates: resourceTemplates.map(template => ({
+        uriTemplate: template.uriTemplate,
+        name: template.name,
+        description: template.description,
+        mimeType: template.mimeType
+      }))
+    };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+    return Logger.withSink(logForwarder.sinkFor({ request_id: String(extra.requestId) }), () =>
+      readResource(services(), request.params.uri, extra.signal)
+    );
+  });
+
+  /**
+   * Prompt handlers
+   */
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return {
+      prompts: prompts.map(describePrompt)
+    };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    return getPrompt(request.params.name, request.params.arguments);
+  });
+
+  /**
+   * Completion handler - prompt arguments and resource template variables
+   */
+  server.setRequestHandler(CompleteRequestSchema, async (request, extra) => {
+    return Logger.withSink(logForwarder.sinkFor({ request_id: String(extra.requestId) }), () =>
+      completeArgument(services().clientes, request.params.ref, request.params.argument, extra.signal)
+    );
+  });
+
+  return server;
+}
+
+/**
+ * Resolve transport settings from config, overridden by CLI flags
+ * (--transport stdio|http, --host, --port)
+ */
+function resolveTransport(argv: string[]): ServerConfig['transport'] {
+  const transport = { ...getConfig().transport };
+
+  for (let i = 0; i < argv.length; i++) {
+    const [flag, inlineValue] = argv[i].split('=', 2);
+    const value = inlineValue ?? argv[i + 1];
+
+    if (flag === '--transport') {
+      transport.type = value as TransportType;
+    } else if (flag === '--host') {
+      transport.host = value;
+    } else if (flag === '--port') {
+      transport.port = parseInt(value, 10);
+    } else {
+      continue;
+    }
+
+    if (inlineValue === undefined) i++;
   }
-});
+
+  if (transport.type !== 'stdio' && transport.type !== 'http') {
+    throw new Error(`Invalid transport "${transport.type}" (expected "stdio" or "http")`);
+  }
+
+  if (!Number.isInteger(transport.port) || transport.port <= 0) {
+    throw new Error('--port must be a positive integer');
+  }
+
+  return transport;
+}
+
+/**
+ * Profiles naming tools that do not exist are most likely typos
+ */
+function warnUnknownProfileTools(): void {
+  const toolNames = new Set(tools.map(tool => tool.name));
+
+  for (const [profileName, profile] of Object.entries(getConfig().profiles)) {
+    const unknown = [...profile.tools, ...Object.keys(profile.fields || {})]
+      .filter(name => name !== '*' && !toolNames.has(name));
+
+    if (unknown.length > 0) {
+      Logger.warn('Profile references unknown tools', { profile: profileName, tools: unknown });
+    }
+  }
+}
 
 /**
  * Start server
  */
 async function main() {
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
+  assertUniqueToolNames(tools);
+  warnUnknownProfileTools();
+
+  const config = getConfig();
+  const services = createServiceResolver(config);
+
+  // Learn each account's endpoints in the background; services wait for it on first use
+  for (const cuenta of Object.keys(config.accounts)) {
+    getEndpointCapabilities(services(cuenta).client).catch(error =>
+      Logger.warn('Endpoint capability probe failed', { account: cuenta, error: error instanceof Error ? error.message : String(error) })
+    );
+  }
+
+  if (config.replayPath) {
+    console.error(`Replaying WispHub responses from ${config.replayPath}`);
+  } else if (config.recordPath) {
+    console.error(`Recording WispHub traffic to ${config.recordPath}`);
+  }
+
+  const transport = resolveTransport(process.argv.slice(2));
+
+  if (transport.type === 'http') {
+    await startHttpTransport(() => createServer(services), transport);
+    console.error(`WispHub CustomerCare MCP server running on http://${transport.host}:${transport.port}`);
+    return;
+  }
+
+  await createServer(services).connect(new StdioServerTransport());
   console.error('WispHub CustomerCare MCP server running');
 }
 
@@ -0,0 +1,154 @@
+/**
+ * Customer-care MCP Prompts
+ * Parameterised workflows that pre-compose the standard tool calls agents
+ * would otherwise retype every shift
+ */
+
+import { z } from 'zod';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import {
+  DiagnosticoConectividadPromptSchema,
+  GestionCobranzaPromptSchema,
+  ReporteFallaPromptSchema,
+  RevisionZonaPromptSchema
+} from '../validators/schemas.js';
+
+interface PromptDefinition<S extends z.AnyZodObject = z.AnyZodObject> {
+  name: string;
+  description: string;
+  argsSchema: S;
+  buildText(args: z.infer<S>): string;
+}
+
+/**
+ * Prompt definitions for MCP
+ */
+const diagnosticoConectividadPrompt: PromptDefinition<typeof DiagnosticoConectividadPromptSchema> = {
+  name: 'diagnostico_conectividad',
+  description: 'Diagnóstico de conectividad: revisa perfil, saldo e historial de tickets antes de proponer una solución.',
+  argsSchema: DiagnosticoConectividadPromptSchema,
+  buildText: ({ id_servicio, sintomas }) => [
+    `Necesito diagnosticar un problema de conectividad del cliente con servicio ${id_servicio}.`,
+    ...(sintomas ? [`Síntomas reportados: ${sintomas}`] : []),
+    ``,
+    `Sigue estos pasos en orden:`,
+    `1. Usa \`obtener_cliente\` con clienteId "${id_servicio}" y revisa estado del servicio, plan, router asignado (incluyendo falla general) e IP.`,
+    `2. Usa \`consultar_saldo_cliente\` con id_servicio ${id_servicio}: si hay adeudo el corte puede ser administrativo y no técnico.`,
+    `3. Usa \`obtener_tickets_cliente\` con servicio ${id_servicio} para detectar fallas recurrentes o tickets abiertos sobre el mismo problema.`,
+    ``,
+    `Con esa información entrega:`,
+    `- Causa más probable (administrativa, falla general del router/zona, equipo del cliente, o desconocida).`,
+    `- Pasos de verificación que el agente puede pedirle al cliente.`,
+    `- Si corresponde, propón los datos para \`crear_ticket\` (asunto, descripción y prioridad), pero NO lo crees sin confirmación del agente.`
+  ].join('\n')
+};
+
+const gestionCobranzaPrompt: PromptDefinition<typeof GestionCobranzaPromptSchema> = {
+  name: 'gestion_cobranza',
+  description: 'Gestión de cobranza: analiza el estado de cuenta y prepara el guion de contacto con el cliente.',
+  argsSchema: GestionCobranzaPromptSchema,
+  buildText: ({ id_servicio, notas }) => [
+    `Prepara una gestión de cobranza para el cliente con servicio ${id_servicio}.`,
+    ...(notas ? [`Contexto previo: ${notas}`] : []),
+    ``,
+    `Sigue estos pasos en orden:`,
+    `1. Usa \`obtener_cliente\` con clienteId "${id_servicio}" para confirmar nombre, datos de contacto, plan y estado del servicio.`,
+    `2. Usa \`consultar_saldo_cliente\` con id_servicio ${id_servicio} y resume saldo, facturas pendientes y días de atraso.`,
+    `3. Usa \`obtener_tickets_cliente\` con servicio ${id_servicio} para identificar fallas abiertas que el cliente pueda argumentar como motivo de no pago.`,
+    ``,
+    `Con esa información entrega:`,
+    `- Resumen del adeudo y nivel de riesgo.`,
+    `- Guion breve y cordial para contactar al cliente, adaptado al nivel de atraso.`,
+    `- Siguiente acción recomendada (recordatorio, acuerdo de pago o evaluar suspensión con \`cambiar_estado_servicio\`). No ejecutes cambios de estado sin confirmación del agente.`
+  ].join('\n')
+};
+
+const reporteFallaPrompt: PromptDefinition<typeof ReporteFallaPromptSchema> = {
+  name: 'reporte_falla',
+  description: 'Alta de reporte de falla: valida al cliente, evita duplicados y crea el ticket de soporte.',
+  argsSchema: ReporteFallaPromptSchema,
+  buildText: ({ id_servicio, descripcion, prioridad, tecnico }) => [
+    `Registra un reporte de falla para el cliente con servicio ${id_servicio}.`,
+    `Descripción del cliente: ${descripcion}`,
+    ``,
+    `Sigue estos pasos en orden:`,
+    `1. Usa \`obtener_cliente\` con clienteId "${id_servicio}" para confirmar que el cliente existe y su servicio está activo.`,
+    `2. Usa \`obtener_tickets_cliente\` con servicio ${id_servicio}. Si ya hay un ticket abierto por el mismo problema, NO crees otro: propón agregar una nota con \`actualizar_ticket\`.`,
+    `3. Si no hay duplicado, usa \`crear_ticket\` con servicio ${id_servicio}, un asunto corto y claro, la descripción completa y prioridad "${prioridad || 'normal'}".`,
+    ...(tecnico ? [`4. Asigna el ticket al técnico ${tecnico} con \`actualizar_ticket\`.`] : []),
+    ``,
+    `Al terminar, confirma el número de ticket creado (o el ticket existente) y los siguientes pasos para el cliente.`
+  ].join('\n')
+};
+
+const revisionZonaPrompt: PromptDefinition<typeof RevisionZonaPromptSchema> = {
+  name: 'revision_zona',
+  description: 'Revisión de falla masiva: cruza el estado de los clientes de una zona para distinguir una falla general de casos aislados.',
+  argsSchema: RevisionZonaPromptSchema,
+  buildText: ({ zona, plan }) => [
+    `Revisa si hay una falla masiva en la zona ${zona}${plan ? ` para el plan "${plan}"` : ''}.`,
+    ``,
+    `Sigue estos pasos en orden:`,
+    `1. Usa \`consultar_clientes\` con zona ${zona}${plan ? ` y plan "${plan}"` : ''} (estado "activo") para obtener los clientes afectados potencialmente.`,
+    `2. Para una muestra de esos clientes usa \`obtener_tickets_cliente\` y busca tickets recientes con síntomas similares.`,
+    `3. Revisa con \`obtener_cliente\` el router asignado de los clientes con tickets abiertos y si tiene falla general registrada.`,
+    ``,
+    `Con esa información entrega:`,
+    `- Si se trata de una falla masiva (mismo router/zona, varios reportes) o de casos aislados.`,
+    `- Lista de clientes afectados y tickets relacionados.`,
+    `- Mensaje sugerido para informar a los clientes. No crees ni modifiques tickets sin confirmación del agente.`
+  ].join('\n')
+};
+
+export const prompts: PromptDefinition[] = [
+  diagnosticoConectividadPrompt,
+  gestionCobranzaPrompt,
+  reporteFallaPrompt,
+  revisionZonaPrompt
+] as PromptDefinition[];
+
+/**
+ * prompts/list entry, with arguments derived from the Zod schema
+ */
+export function describePrompt(prompt: PromptDefinition) {
+  return {
+    name: prompt.name,
+    description: prompt.description,
+    arguments: Object.entries(prompt.argsSchema.shape).map(([name, schema]) => ({
+      name,
+      description: (schema as z.ZodTypeAny).description,
+      required: !(schema as z.ZodTypeAny).isOptional()
+    }))
+  };
+}
+
+/**
+ * prompts/get - validate arguments and render the prompt messages
+ */
+export function getPrompt(name: string, args: Record<string, string> = {}) {
+  const prompt = prompts.find(p => p.name === name);
+  if (!prompt) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+
+  const parsed = prompt.argsSchema.safeParse(args);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue =>
+      `${issue.path.join('.')}: ${issue.message}`
+    ).join(', ');
+    throw new McpError(ErrorCode.InvalidParams, `Argumentos inválidos para ${name}: ${issues}`);
+  }
+
+  return {
+    description: prompt.description,
+    messages: [
+      {
+        role: 'user' as const,
+        content: {
+          type: 'text' as const,
+          text: prompt.buildText(parsed.data)
+        }
+      }
+    ]
+  };
+}
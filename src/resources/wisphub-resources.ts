@@ -0,0 +1,128 @@
+/**
+ * WispHub MCP Resources
+ * Clientes, tickets and saldos readable as resources, so assistants can attach
+ * a customer record to context without a tool round-trip
+ */
+
+import { UriTemplate } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import type { Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { AccountServices } from '../services/account-services.js';
+import type { ToolResponse } from '../types/wisphub.types.js';
+
+const MIME_TYPE = 'application/json';
+const CLIENTES_PAGE_SIZE = 50;
+
+// MCP's "resource not found" error code, which the SDK's ErrorCode lacks
+const RESOURCE_NOT_FOUND = -32002;
+
+interface ResourceTemplateDefinition {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+  read(services: AccountServices, variables: Variables, signal?: AbortSignal): Promise<ToolResponse<unknown>>;
+}
+
+/**
+ * Resource template definitions for MCP
+ */
+export const resourceTemplates: ResourceTemplateDefinition[] = [
+  {
+    uriTemplate: 'wisphub://clientes/{id_servicio}',
+    name: 'Cliente',
+    description: 'Perfil completo de un cliente (contacto, plan, estado, configuración de red)',
+    mimeType: MIME_TYPE,
+    read: ({ clientes }, variables, signal) => clientes.obtenerCliente(String(parseId(variables.id_servicio, 'id_servicio')), signal)
+  },
+  {
+    uriTemplate: 'wisphub://clientes/{id_servicio}/saldo',
+    name: 'Saldo del cliente',
+    description: 'Estado de cuenta del cliente: saldo actual y facturas pendientes',
+    mimeType: MIME_TYPE,
+    read: ({ saldos }, variables, signal) => saldos.consultarSaldo(parseId(variables.id_servicio, 'id_servicio'), signal)
+  },
+  {
+    uriTemplate: 'wisphub://tickets/{id}',
+    name: 'Ticket',
+    description: 'Detalle de un ticket de soporte',
+    mimeType: MIME_TYPE,
+    read: ({ tickets }, variables, signal) => tickets.obtenerTicket(parseId(variables.id, 'id'), signal)
+  }
+];
+
+const compiledTemplates = resourceTemplates.map(template => ({
+  template,
+  matcher: new UriTemplate(template.uriTemplate)
+}));
+
+/**
+ * resources/list - one concrete resource per cliente of `services`' account,
+ * paged with an offset cursor
+ */
+export async function listClienteResources(services: AccountServices, cursor?: string, signal?: AbortSignal) {
+  const offset = cursor ? parseInt(cursor, 10) : 0;
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${cursor}`);
+  }
+
+  const result = await services.clientes.consultarClientes({ limit: CLIENTES_PAGE_SIZE, offset }, signal);
+  if (!result.success) {
+    throw new McpError(ErrorCode.InternalError, result.error || 'Error consultando clientes');
+  }
+
+  const clientes = result.data || [];
+
+  return {
+    resources: clientes.map(cliente => ({
+      uri: `wisphub://clientes/${cliente.id_servicio}`,
+      name: `${cliente.nombre_completo} (ID: ${cliente.id_servicio})`,
+      description: `Cliente ${cliente.estado} - Plan ${cliente.plan}`,
+      mimeType: MIME_TYPE
+    })),
+    nextCursor: clientes.length === CLIENTES_PAGE_SIZE ? String(offset + CLIENTES_PAGE_SIZE) : undefined
+  };
+}
+
+/**
+ * resources/read - resolve the URI against the templates and return JSON contents
+ */
+export async function readResource(services: AccountServices, uri: string, signal?: AbortSignal) {
+  for (const { template, matcher } of compiledTemplates) {
+    const variables = matcher.match(uri);
+    if (!variables) continue;
+
+    const result = await template.read(services, variables, signal);
+
+    if (!result.success) {
+      throw new McpError(ErrorCode.InternalError, result.error || `Error leyendo ${uri}`);
+    }
+
+    if (result.data === undefined) {
+      throw new McpError(RESOURCE_NOT_FOUND, `Recurso no encontrado: ${uri}`);
+    }
+
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: template.mimeType,
+          text: JSON.stringify(result.data, null, 2)
+        }
+      ]
+    };
+  }
+
+  throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+}
+
+/**
+ * Helper functions
+ */
+function parseId(value: string | string[] | undefined, name: string): number {
+  const id = Number(Array.isArray(value) ? value[0] : value);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new McpError(ErrorCode.InvalidParams, `${name} inválido: ${value}`);
+  }
+  return id;
+}
@@ -0,0 +1,40 @@
+/**
+ * Service wiring per WispHub account
+ * The services of an account share one HTTP client, and with it one cache,
+ * rate limiter and circuit breaker
+ */
+
+import { WispHubClient } from '../clients/wisphub-client.js';
+import { ClienteService } from './cliente.service.js';
+import { TicketService } from './ticket.service.js';
+import { SaldoService } from './saldo.service.js';
+import { DiagnosticoService } from './diagnostico.service.js';
+
+export interface AccountServices {
+  cuenta: string;
+  client: WispHubClient;
+  clientes: ClienteService;
+  tickets: TicketService;
+  saldos: SaldoService;
+  diagnostico: DiagnosticoService;
+}
+
+/**
+ * Services of an account (default account when `cuenta` is omitted).
+ * Throws for an account that is not configured.
+ */
+export type ServiceResolver = (cuenta?: string) => AccountServices;
+
+/**
+ * Build every service of `client`'s account on top of that one client
+ */
+export function createAccountServices(client: WispHubClient): AccountServices {
+  return {
+    cuenta: client.account,
+    client,
+    clientes: new ClienteService(client),
+    tickets: new TicketService(client),
+    saldos: new SaldoService(client),
+    diagnostico: new DiagnosticoService(client)
+  };
+}
@@ -2,8 +2,14 @@
  * Cliente service - Business logic layer for client operations
  */
 
-import { WispHubClient } from '../clients/wisphub-client.js';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { WispHubClient, WispHubApiError } from '../clients/wisphub-client.js';
+import { CLIENTE_ENDPOINTS, getEndpointCapabilities, pickEndpoint } from '../clients/endpoint-capabilities.js';
+import { CACHE_TAGS } from '../clients/cache-tags.js';
+import { CircuitOpenError } from '../utils/circuit-breaker.js';
 import { DataTransformer } from '../utils/data-transformer.js';
+import { ApiPayloadValidator } from '../utils/api-payload-validator.js';
+import { ApiClienteSchema } from '../validators/api-schemas.js';
 import { Logger } from '../utils/logger.js';
 import { getConfig } from '../config/server-config.js';
 import type {
@@ -16,21 +22,33 @@ import type {
   DesactivarServicioInput,
   ActualizarClienteInput,
   PaginatedResponse,
-  ToolResponse
+  ToolResponse,
+  ListToolResponse
 } from '../types/wisphub.types.js';
 
+// Page size requested when walking every page ("todos")
+const ALL_PAGES_PAGE_SIZE = 100;
+
 export class ClienteService {
-  private httpClient: WispHubClient;
   private config = getConfig();
 
-  constructor() {
-    this.httpClient = new WispHubClient();
+  /**
+   * @param httpClient Client of the account this service acts on, shared with
+   * the account's other services
+   */
+  constructor(private httpClient: WispHubClient) {}
+
+  /**
+   * Account this service acts on
+   */
+  get cuenta(): string {
+    return this.httpClient.account;
   }
 
   /**
    * Consultar lista de clientes con filtros
    */
-  async consultarClientes(params: ConsultarClientesInput): Promise<ToolResponse<Cliente[]>> {
+  async consultarClientes(params: ConsultarClientesInput, signal?: AbortSignal): Promise<ListToolResponse<Cliente>> {
     const timer = Logger.startTimer();
     const requestId = Logger.toolStart('consultar_clientes', params);
 
@@ -58,19 +76,32 @@ export class ClienteService {
         apiParams.search = DataTransformer.prepareSearchQuery(params.search);
       }
 
-      // Call API with caching
-      const response = await this.httpClient.get<ApiClienteResponse>(
-        '/api/clientes/',
-        apiParams,
-        this.config.cache.clientes
-      );
+      let clientes: ApiCliente[];
+      let truncado = false;
+
+      if (params.todos) {
+        // Follow `next` from the first page, up to the configured item cap
+        ({ items: clientes, truncado } = await this.httpClient.paginateAll<ApiCliente>(
+          '/api/clientes/',
+          { ...apiParams, limit: ALL_PAGES_PAGE_SIZE, offset: 0 },
+          { cacheTtl: this.config.cache.clientes, cacheTags: [CACHE_TAGS.clientes], signal }
+        ));
+      } else {
+        // Call API with caching
+        const response = await this.httpClient.get<ApiClienteResponse>(
+          '/api/clientes/',
+          apiParams,
+          this.config.cache.clientes,
+          { signal, cacheTags: [CACHE_TAGS.clientes] }
+        );
 
-      // Transform to user-friendly format
-      // Handle Django REST Framework pagination structure
-      const clientes = Array.isArray(response) ? response : response.results || [];
-      const transformedClientes = clientes.map((cliente: ApiCliente) => 
-        DataTransformer.clienteToUserFriendly(cliente)
-      );
+        // Handle Django REST Framework pagination structure
+        clientes = Array.isArray(response) ? response : response.results || [];
+      }
+
+      // Validate and transform to user-friendly format
+      const transformedClientes = ApiPayloadValidator.parseList<ApiCliente>(ApiClienteSchema, clientes, '/api/clientes/')
+        .map(cliente => DataTransformer.clienteToUserFriendly(cliente));
 
       const duration = timer();
       Logger.toolEnd('consultar_clientes', requestId, duration, transformedClientes);
@@ -78,6 +109,7 @@ export class ClienteService {
       return {
         success: true,
         data: transformedClientes,
+        truncado,
         timestamp: new Date().toISOString()
       };
 
@@ -96,14 +128,14 @@ export class ClienteService {
   /**
    * Obtener cliente individual por ID, email o número de servicio
    */
-  async obtenerCliente(clienteId: string): Promise<ToolResponse<Cliente>> {
-    return this.obtenerClienteWithRetry(clienteId, 3);
+  async obtenerCliente(clienteId: string, signal?: AbortSignal): Promise<ToolResponse<Cliente>> {
+    return this.obtenerClienteWithRetry(clienteId, 3, signal);
   }
 
   /**
    * Obtener cliente with retry logic for better reliability
    */
-  private async obtenerClienteWithRetry(clienteId: string, maxRetries: number = 3): Promise<ToolResponse<Cliente>> {
+  private async obtenerClienteWithRetry(clienteId: string, maxRetries: number = 3, signal?: AbortSignal): Promise<ToolResponse<Cliente>> {
     const timer = Logger.startTimer();
     const requestId = Logger.toolStart('obtener_cliente', { clienteId, maxRetries });
 
@@ -111,11 +143,18 @@ export class ClienteService {
     let attempts: any[] = [];
 
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      // A cancelled caller gets no further attempts, including after an empty answer
+      if (signal?.aborted) {
+        lastError = lastError ?? new Error('Request cancelled');
+        break;
+      }
+
       try {
         Logger.info(`Obtener cliente attempt ${attempt}/${maxRetries}`, { clienteId, attempt });
 
         let endpoint: string;
         let searchParams: any = {};
+        let cacheTags: string[];
 
         // Determine if clienteId is numeric (service ID) or string (email/search)
         const isNumericId = /^\d+$/.test(clienteId);
@@ -127,6 +166,7 @@ export class ClienteService {
             throw new Error('ID de servicio inválido');
           }
           endpoint = `/api/clientes/${id}/`;
+          cacheTags = [CACHE_TAGS.cliente(id)];
         } else {
           // Search by email or other identifier
           endpoint = '/api/clientes/';
@@ -135,6 +175,7 @@ export class ClienteService {
           } else {
             searchParams.search = clienteId;
           }
+          cacheTags = [CACHE_TAGS.clientes];
         }
 
         const attemptStart = Date.now();
@@ -144,7 +185,8 @@ export class ClienteService {
         const response = await this.httpClient.get<ApiCliente | ApiClienteResponse>(
           endpoint,
           searchParams,
-          useCache
+          useCache,
+          { signal, cacheTags }
         );
 
         const attemptDuration = Date.now() - attemptStart;
@@ -163,18 +205,24 @@ export class ClienteService {
         if (Array.isArray(response)) {
           // Direct array result - take first match
           if (response.length > 0) {
-            cliente = DataTransformer.clienteToUserFriendly(response[0]);
+            cliente = DataTransformer.clienteToUserFriendly(
+              ApiPayloadValidator.parse<ApiCliente>(ApiClienteSchema, response[0], endpoint)
+            );
           }
         } else if (response && typeof response === 'object') {
           // Check if it's a paginated response with results
           if ('results' in response && Array.isArray(response.results)) {
             // Paginated search results - take first match
             if (response.results.length > 0) {
-              cliente = DataTransformer.clienteToUserFriendly(response.results[0]);
+              cliente = DataTransformer.clienteToUserFriendly(
+                ApiPayloadValidator.parse<ApiCliente>(ApiClienteSchema, response.results[0], endpoint)
+              );
             }
           } else {
             // Direct single object result (direct ID lookup)
-            cliente = DataTransformer.clienteToUserFriendly(response as ApiCliente);
+            cliente = DataTransformer.clienteToUserFriendly(
+              ApiPayloadValidator.parse<ApiCliente>(ApiClienteSchema, response, endpoint)
+            );
           }
         }
 
@@ -257,15 +305,43 @@ export class ClienteService {
           duration: attemptDuration
         });
 
-        // If this is the last attempt, break and return error
-        if (attempt === maxRetries) {
+        // No such cliente: asking again gets the same 404
+        if (error instanceof WispHubApiError && error.status === 404) {
+          const totalDuration = timer();
+          Logger.toolEnd('obtener_cliente', requestId, totalDuration, undefined);
+
+          return {
+            success: true,
+            data: undefined,
+            timestamp: new Date().toISOString(),
+            debugInfo: {
+              attempts,
+              totalDuration,
+              clienteId,
+              noDataFound: true
+            }
+          };
+        }
+
+        // Last attempt, caller cancelled, WispHub is known to be down, or it
+        // rejected the request outright: return the error
+        if (
+          attempt === maxRetries ||
+          signal?.aborted ||
+          error instanceof CircuitOpenError ||
+          (error instanceof WispHubApiError && !error.isTransient())
+        ) {
           break;
         }
 
         // Exponential backoff between retries
         const backoffMs = 1000 * attempt;
         Logger.info(`Waiting ${backoffMs}ms before retry`, { clienteId, attempt });
-        await new Promise(resolve => setTimeout(resolve, backoffMs));
+        try {
+          await sleep(backoffMs, undefined, { signal });
+        } catch {
+          break;
+        }
       }
     }
 
@@ -290,7 +366,7 @@ export class ClienteService {
   /**
    * Activar servicio de cliente
    */
-  async activarServicio(params: ActivarServicioInput): Promise<ToolResponse<any>> {
+  async activarServicio(params: ActivarServicioInput, signal?: AbortSignal): Promise<ToolResponse<any>> {
     const timer = Logger.startTimer();
     const requestId = Logger.toolStart('activar_servicio', params);
 
@@ -312,8 +388,10 @@ export class ClienteService {
       // Call API (no caching for actions)
       const response = await this.httpClient.patch(
         `/api/clientes/${params.id_servicio}/`,
-        apiData
+        apiData,
+        { signal }
       );
+      this.invalidateCliente(params.id_servicio);
 
       const duration = timer();
       Logger.toolEnd('activar_servicio', requestId, duration);
@@ -344,7 +422,7 @@ export class ClienteService {
   /**
    * Desactivar servicio de cliente
    */
-  async desactivarServicio(params: DesactivarServicioInput): Promise<ToolResponse<any>> {
+  async desactivarServicio(params: DesactivarServicioInput, signal?: AbortSignal): Promise<ToolResponse<any>> {
     const timer = Logger.startTimer();
     const requestId = Logger.toolStart('desactivar_servicio', params);
 
@@ -368,14 +446,15 @@ export class ClienteService {
       // Call API (no caching for actions) with debugging like actualizar_cliente
       const response = await this.httpClient.patch(
         `/api/clientes/${params.id_servicio}/`,
-        apiData
+        apiData,
+        { signal }
       );
 
-      // Clear cache to ensure fresh data for verification
-      this.httpClient.clearCache();
+      // Drop what was cached for this cliente, so verification reads fresh data
+      this.invalidateCliente(params.id_servicio);
 
       // Verify change by getting updated client data (like in actualizar_cliente)
-      const verifiedClienteResult = await this.obtenerCliente(params.id_servicio.toString());
+      const verifiedClienteResult = await this.obtenerCliente(params.id_servicio.toString(), signal);
       const verifiedCliente = verifiedClienteResult.success ? verifiedClienteResult.data : null;
 
       const duration = timer();
@@ -416,7 +495,7 @@ export class ClienteService {
   /**
    * Cancelar servicio de cliente
    */
-  async cancelarServicio(params: DesactivarServicioInput): Promise<ToolResponse<any>> {
+  async cancelarServicio(params: DesactivarServicioInput, signal?: AbortSignal): Promise<ToolResponse<any>> {
     const timer = Logger.startTimer();
     const requestId = Logger.toolStart('cancelar_servicio', params);
 
@@ -440,8 +519,10 @@ export class ClienteService {
       // Call API (no caching for actions)
       const response = await this.httpClient.patch(
         `/api/clientes/${params.id_servicio}/`,
-        apiData
+        apiData,
+        { signal }
       );
+      this.invalidateCliente(params.id_servicio);
 
       const duration = timer();
       Logger.toolEnd('cancelar_servicio', requestId, duration);
@@ -493,7 +574,7 @@ export class ClienteService {
   /**
    * Actualizar información del cliente
    */
-  async actualizarCliente(params: ActualizarClienteInput): Promise<ToolResponse<Cliente>> {
+  async actualizarCliente(params: ActualizarClienteInput, signal?: AbortSignal): Promise<ToolResponse<Cliente>> {
     const timer = Logger.startTimer();
     const requestId = Logger.toolStart('actualizar_cliente', params);
 
@@ -526,43 +607,13 @@ export class ClienteService {
         apiData: apiData
       });
 
-      // Try multiple endpoints - WispHub might separate contact info from technical info
-      let response: any = null;
-      let usedEndpoint = '';
-      
-      // Try different endpoints for client updates
-      const endpointsToTry = [
-        `/api/clientes/${params.id_servicio}/`,  // Technical endpoint
-        `/api/clients/${params.id_servicio}/`,   // Alternative naming
-        `/api/usuarios/${params.id_servicio}/`,  // User data endpoint
-        `/api/contactos/${params.id_servicio}/`, // Contact info endpoint
-      ];
-      
-      for (const endpoint of endpointsToTry) {
-        try {
-          Logger.info(`Trying endpoint: ${endpoint}`, { id_servicio: params.id_servicio });
-          
-          response = await this.httpClient.put<ApiCliente>(endpoint, apiData);
-          usedEndpoint = endpoint;
-          
-          Logger.info(`Endpoint ${endpoint} succeeded`, { 
-            id_servicio: params.id_servicio,
-            hasResponse: !!response 
-          });
-          break;
-          
-        } catch (endpointError) {
-          Logger.warn(`Endpoint ${endpoint} failed`, { 
-            id_servicio: params.id_servicio,
-            error: endpointError instanceof Error ? endpointError.message : String(endpointError)
-          });
-          
-          // If this is the last endpoint and it failed, throw the error
-          if (endpoint === endpointsToTry[endpointsToTry.length - 1]) {
-            throw endpointError;
-          }
-        }
-      }
+      // The instance's probed capabilities decide where clientes are updated
+      const capacidades = await getEndpointCapabilities(this.httpClient, signal);
+      const usedEndpoint = `${pickEndpoint(capacidades, CLIENTE_ENDPOINTS, 'detalle', 'PUT')}${params.id_servicio}/`;
+
+      Logger.info('Updating cliente', { id_servicio: params.id_servicio, endpoint: usedEndpoint });
+      const response = await this.httpClient.put<ApiCliente>(usedEndpoint, apiData, { signal });
+      this.invalidateCliente(params.id_servicio);
 
       Logger.info('Cliente update API response received', {
         id_servicio: params.id_servicio,
@@ -578,7 +629,7 @@ export class ClienteService {
       let verifiedCliente: any = null;
       try {
         Logger.info('Verifying cliente update was saved', { id_servicio: params.id_servicio });
-        const verifyResponse = await this.httpClient.get<ApiCliente>(`/api/clientes/${params.id_servicio}/`);
+        const verifyResponse = await this.httpClient.get<ApiCliente>(usedEndpoint, undefined, undefined, { signal });
         if (Array.isArray(verifyResponse)) {
           verifiedCliente = verifyResponse.length > 0 ? verifyResponse[0] : null;
         } else if (verifyResponse && typeof verifyResponse === 'object') {
@@ -604,7 +655,9 @@ export class ClienteService {
           });
           
           // Use the verified cliente data for the response
-          const cliente = DataTransformer.clienteToUserFriendly(verifiedCliente);
+          const cliente = DataTransformer.clienteToUserFriendly(
+            ApiPayloadValidator.parse<ApiCliente>(ApiClienteSchema, verifiedCliente, usedEndpoint)
+          );
           
           const duration = timer();
           Logger.toolEnd('actualizar_cliente', requestId, duration, cliente);
@@ -634,7 +687,9 @@ export class ClienteService {
       }
 
       // Transform to user-friendly format (fallback if verification failed)
-      const cliente = DataTransformer.clienteToUserFriendly(response);
+      const cliente = DataTransformer.clienteToUserFriendly(
+        ApiPayloadValidator.parse<ApiCliente>(ApiClienteSchema, response, usedEndpoint)
+      );
 
       const duration = timer();
       Logger.toolEnd('actualizar_cliente', requestId, duration, cliente);
@@ -667,7 +722,14 @@ export class ClienteService {
   }
 
   /**
-   * Clear service cache (useful for testing)
+   * Drop cached reads of a cliente and every cliente list, after a write to it
+   */
+  private invalidateCliente(idServicio: number): void {
+    this.httpClient.invalidateCache([CACHE_TAGS.cliente(idServicio), CACHE_TAGS.clientes]);
+  }
+
+  /**
+   * Clear the account's cache, shared with the other services (useful for testing)
    */
   clearCache(): void {
     this.httpClient.clearCache();
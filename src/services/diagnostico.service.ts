@@ -0,0 +1,80 @@
+/**
+ * Diagnostico service - Server health, API reachability and runtime stats
+ */
+
+import { WispHubClient } from '../clients/wisphub-client.js';
+import { peekEndpointCapabilities } from '../clients/endpoint-capabilities.js';
+import { ErrorHandler } from '../utils/error-handler.js';
+import { ApiPayloadValidator } from '../utils/api-payload-validator.js';
+import { Logger } from '../utils/logger.js';
+import { getConfig } from '../config/server-config.js';
+import type { DiagnosticoServidor, ToolResponse } from '../types/wisphub.types.js';
+
+// Window for the "recent errors" counters
+const ERROR_WINDOW_MS = 60 * 60 * 1000;
+
+export class DiagnosticoService {
+  private config = getConfig();
+
+  /**
+   * @param httpClient Client of the account to diagnose, shared with its other services
+   */
+  constructor(private httpClient: WispHubClient) {}
+
+  /**
+   * Account this service diagnoses
+   */
+  get cuenta(): string {
+    return this.httpClient.account;
+  }
+
+  /**
+   * Probe the API and collect circuit breaker, cache, error, payload drift,
+   * endpoint capability and uptime stats
+   */
+  async obtenerDiagnostico(signal?: AbortSignal): Promise<ToolResponse<DiagnosticoServidor>> {
+    const timer = Logger.startTimer();
+    const requestId = Logger.toolStart('diagnostico_servidor', {});
+
+    try {
+      const api = await this.httpClient.probe({ signal });
+
+      const { hits, misses, size, bytes, evictions, hitRate } = this.httpClient.getCacheStats();
+
+      const diagnostico: DiagnosticoServidor = {
+        api,
+        circuito: this.httpClient.getCircuitStatus(),
+        base_url: this.config.accounts[this.cuenta].baseUrl,
+        cuentas: Object.keys(this.config.accounts),
+        modo: this.config.mode,
+        perfil: this.config.profile,
+        uptime_s: Math.round(process.uptime()),
+        cache: { hits, misses, size, bytes, evictions, hitRate },
+        errores: ErrorHandler.getErrorStats(ERROR_WINDOW_MS),
+        ventana_errores_min: ERROR_WINDOW_MS / 60000,
+        deriva_api: ApiPayloadValidator.getDriftReport(),
+        // Never waits for a probe: when WispHub is down it would hang until the probes time out
+        capacidades: peekEndpointCapabilities(this.httpClient)
+      };
+
+      const duration = timer();
+      Logger.toolEnd('diagnostico_servidor', requestId, duration, diagnostico);
+
+      return {
+        success: true,
+        data: diagnostico,
+        timestamp: new Date().toISOString()
+      };
+
+    } catch (error) {
+      const duration = timer();
+      Logger.toolError('diagnostico_servidor', requestId, error, duration);
+
+      return {
+        success: false,
+        error: `Error obteniendo diagnóstico: ${error instanceof Error ? error.message : String(error)}`,
+        timestamp: new Date().toISOString()
+      };
+    }
+  }
+}
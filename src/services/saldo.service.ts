@@ -3,7 +3,10 @@
  */
 
 import { WispHubClient } from '../clients/wisphub-client.js';
+import { CACHE_TAGS } from '../clients/cache-tags.js';
 import { DataTransformer } from '../utils/data-transformer.js';
+import { ApiPayloadValidator } from '../utils/api-payload-validator.js';
+import { ApiSaldoSchema } from '../validators/api-schemas.js';
 import { Logger } from '../utils/logger.js';
 import { getConfig } from '../config/server-config.js';
 import type {
@@ -13,17 +16,25 @@ import type {
 } from '../types/wisphub.types.js';
 
 export class SaldoService {
-  private httpClient: WispHubClient;
   private config = getConfig();
 
-  constructor() {
-    this.httpClient = new WispHubClient();
+  /**
+   * @param httpClient Client of the account this service acts on, shared with
+   * the account's other services
+   */
+  constructor(private httpClient: WispHubClient) {}
+
+  /**
+   * Account this service acts on
+   */
+  get cuenta(): string {
+    return this.httpClient.account;
   }
 
   /**
    * Consultar saldo detallado de un cliente
    */
-  async consultarSaldo(servicioId: number): Promise<ToolResponse<SaldoDetalle>> {
+  async consultarSaldo(servicioId: number, signal?: AbortSignal): Promise<ToolResponse<SaldoDetalle>> {
     const timer = Logger.startTimer();
     const requestId = Logger.toolStart('consultar_saldo', { servicioId });
 
@@ -37,7 +48,8 @@ export class SaldoService {
       const response = await this.httpClient.get<ApiSaldo>(
         `/api/clientes/${servicioId}/saldo/`,
         {},
-        this.config.cache.saldos
+        this.config.cache.saldos,
+        { signal, cacheTags: [CACHE_TAGS.saldo(servicioId)] }
       );
 
       // Validate response structure
@@ -61,6 +73,8 @@ export class SaldoService {
         saldoData = response as ApiSaldo;
       }
 
+      saldoData = ApiPayloadValidator.parse<ApiSaldo>(ApiSaldoSchema, saldoData, `/api/clientes/${servicioId}/saldo/`);
+
       // Log raw API data for debugging
       Logger.info('Raw saldo API response', {
         servicioId,
@@ -108,7 +122,7 @@ export class SaldoService {
   /**
    * Registrar pago de cliente (para futuras implementaciones)
    */
-  async registrarPago(servicioId: number, monto: number, metodoPago: string): Promise<ToolResponse<any>> {
+  async registrarPago(servicioId: number, monto: number, metodoPago: string, signal?: AbortSignal): Promise<ToolResponse<any>> {
     const timer = Logger.startTimer();
     const requestId = Logger.toolStart('registrar_pago', { servicioId, monto, metodoPago });
 
@@ -133,8 +147,11 @@ export class SaldoService {
       // Call API (no caching for payment operations)
       const response = await this.httpClient.post(
         `/api/pagos/`,
-        apiData
+        apiData,
+        { signal }
       );
+      // The cliente detail and lists embed saldo and estado_facturas too
+      this.httpClient.invalidateCache([CACHE_TAGS.saldo(servicioId), CACHE_TAGS.cliente(servicioId), CACHE_TAGS.clientes]);
 
       const duration = timer();
       Logger.toolEnd('registrar_pago', requestId, duration);
@@ -184,7 +201,7 @@ export class SaldoService {
   }
 
   /**
-   * Clear service cache (useful for testing)
+   * Clear the account's cache, shared with the other services (useful for testing)
    */
   clearCache(): void {
     this.httpClient.clearCache();
@@ -2,30 +2,43 @@
  * Ticket service - Business logic layer for ticket operations
  */
 
-import { WispHubClient } from '../clients/wisphub-client.js';
+import { WispHubClient, WispHubApiError } from '../clients/wisphub-client.js';
+import { CACHE_TAGS } from '../clients/cache-tags.js';
 import { DataTransformer } from '../utils/data-transformer.js';
+import { ApiPayloadValidator } from '../utils/api-payload-validator.js';
+import { ApiTicketSchema } from '../validators/api-schemas.js';
 import { Logger } from '../utils/logger.js';
 import { getConfig } from '../config/server-config.js';
 import type {
   ApiTicket,
+  ApiTicketResponse,
   Ticket,
   CrearTicketInput,
   ActualizarTicketInput,
-  ToolResponse
+  ToolResponse,
+  ListToolResponse
 } from '../types/wisphub.types.js';
 
 export class TicketService {
-  private httpClient: WispHubClient;
   private config = getConfig();
 
-  constructor() {
-    this.httpClient = new WispHubClient();
+  /**
+   * @param httpClient Client of the account this service acts on, shared with
+   * the account's other services
+   */
+  constructor(private httpClient: WispHubClient) {}
+
+  /**
+   * Account this service acts on
+   */
+  get cuenta(): string {
+    return this.httpClient.account;
   }
 
   /**
    * Crear nuevo ticket de soporte
    */
-  async crearTicket(params: CrearTicketInput): Promise<ToolResponse<Ticket>> {
+  async crearTicket(params: CrearTicketInput, signal?: AbortSignal): Promise<ToolResponse<Ticket>> {
     const timer = Logger.startTimer();
     const requestId = Logger.toolStart('crear_ticket', params);
 
@@ -54,11 +67,15 @@ export class TicketService {
       // Call API (no caching for creating tickets)
       const response = await this.httpClient.post<ApiTicket>(
         '/api/tickets/',
-        apiData
+        apiData,
+        { signal }
       );
+      this.httpClient.invalidateCache([CACHE_TAGS.ticketsServicio(params.servicio)]);
 
-      // Transform to user-friendly format
-      const ticket = DataTransformer.ticketToUserFriendly(response);
+      // Validate and transform to user-friendly format
+      const ticket = DataTransformer.ticketToUserFriendly(
+        ApiPayloadValidator.parse<ApiTicket>(ApiTicketSchema, response, '/api/tickets/')
+      );
 
       const duration = timer();
       Logger.toolEnd('crear_ticket', requestId, duration, ticket);
@@ -84,9 +101,9 @@ export class TicketService {
   /**
    * Obtener tickets de un cliente específico
    */
-  async obtenerTicketsCliente(servicioId: number): Promise<ToolResponse<Ticket[]>> {
+  async obtenerTicketsCliente(servicioId: number, todos: boolean = false, signal?: AbortSignal): Promise<ListToolResponse<Ticket>> {
     const timer = Logger.startTimer();
-    const requestId = Logger.toolStart('obtener_tickets_cliente', { servicioId });
+    const requestId = Logger.toolStart('obtener_tickets_cliente', { servicioId, todos });
 
     try {
       // Validate service ID
@@ -94,18 +111,32 @@ export class TicketService {
         throw new Error('ID de servicio inválido');
       }
 
-      // Call API with caching
-      const response = await this.httpClient.get<ApiTicket[]>(
-        '/api/tickets/',
-        { servicio: servicioId },
-        this.config.cache.tickets
-      );
+      let tickets: ApiTicket[];
+      let truncado = false;
 
-      // Transform to user-friendly format
-      const tickets = Array.isArray(response) ? response : [];
-      const transformedTickets = tickets.map(ticket => 
-        DataTransformer.ticketToUserFriendly(ticket)
-      );
+      if (todos) {
+        // Follow `next` through every page, up to the configured item cap
+        ({ items: tickets, truncado } = await this.httpClient.paginateAll<ApiTicket>(
+          '/api/tickets/',
+          { servicio: servicioId },
+          { cacheTtl: this.config.cache.tickets, cacheTags: [CACHE_TAGS.ticketsServicio(servicioId)], signal }
+        ));
+      } else {
+        // Call API with caching
+        const response = await this.httpClient.get<ApiTicketResponse>(
+          '/api/tickets/',
+          { servicio: servicioId },
+          this.config.cache.tickets,
+          { signal, cacheTags: [CACHE_TAGS.ticketsServicio(servicioId)] }
+        );
+
+        // Handle both a bare array and a paginated first page
+        tickets = Array.isArray(response) ? response : response.results || [];
+      }
+
+      // Validate and transform to user-friendly format
+      const transformedTickets = ApiPayloadValidator.parseList<ApiTicket>(ApiTicketSchema, tickets, '/api/tickets/')
+        .map(ticket => DataTransformer.ticketToUserFriendly(ticket));
 
       const duration = timer();
       Logger.toolEnd('obtener_tickets_cliente', requestId, duration, transformedTickets);
@@ -113,6 +144,7 @@ export class TicketService {
       return {
         success: true,
         data: transformedTickets,
+        truncado,
         timestamp: new Date().toISOString()
       };
 
@@ -128,6 +160,72 @@ export class TicketService {
     }
   }
 
+  /**
+   * Obtener un ticket individual por ID
+   */
+  async obtenerTicket(ticketId: number, signal?: AbortSignal): Promise<ToolResponse<Ticket>> {
+    const timer = Logger.startTimer();
+    const requestId = Logger.toolStart('obtener_ticket', { ticketId });
+
+    try {
+      if (!Number.isInteger(ticketId) || ticketId <= 0) {
+        throw new Error('ID de ticket inválido');
+      }
+
+      // Call API with caching
+      const response = await this.httpClient.get<ApiTicket | ApiTicketResponse>(
+        `/api/tickets/${ticketId}/`,
+        {},
+        this.config.cache.tickets,
+        { signal, cacheTags: [CACHE_TAGS.ticket(ticketId)] }
+      );
+
+      // Handle array / paginated / direct object responses
+      let apiTicket: ApiTicket | undefined;
+      if (Array.isArray(response)) {
+        apiTicket = response[0];
+      } else if (response && typeof response === 'object' && 'results' in response) {
+        apiTicket = response.results[0];
+      } else {
+        apiTicket = response as ApiTicket;
+      }
+
+      const ticket = apiTicket
+        ? DataTransformer.ticketToUserFriendly(ApiPayloadValidator.parse<ApiTicket>(ApiTicketSchema, apiTicket, `/api/tickets/${ticketId}/`))
+        : undefined;
+
+      const duration = timer();
+      Logger.toolEnd('obtener_ticket', requestId, duration, ticket);
+
+      return {
+        success: true,
+        data: ticket,
+        timestamp: new Date().toISOString()
+      };
+
+    } catch (error) {
+      const duration = timer();
+
+      // No such ticket: reported as no data, like an empty search
+      if (error instanceof WispHubApiError && error.status === 404) {
+        Logger.toolEnd('obtener_ticket', requestId, duration, undefined);
+        return {
+          success: true,
+          data: undefined,
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      Logger.toolError('obtener_ticket', requestId, error, duration);
+
+      return {
+        success: false,
+        error: `Error obteniendo ticket: ${error instanceof Error ? error.message : String(error)}`,
+        timestamp: new Date().toISOString()
+      };
+    }
+  }
+
   /**
    * Actualizar estado o información de un ticket
    */
@@ -136,7 +234,7 @@ export class TicketService {
     prioridad: string;
     tecnico: string;
     notas: string;
-  }>): Promise<ToolResponse<Ticket>> {
+  }>, signal?: AbortSignal): Promise<ToolResponse<Ticket>> {
     const timer = Logger.startTimer();
     const requestId = Logger.toolStart('actualizar_ticket', { ticketId, updates });
 
@@ -192,7 +290,7 @@ export class TicketService {
       // Try PUT instead of PATCH with complete ticket object
       // First get the current ticket to have complete data
       Logger.info('Getting current ticket for PUT update', { ticketId });
-      const currentTicket = await this.httpClient.get<ApiTicket>(`/api/tickets/${ticketId}/`);
+      const currentTicket = await this.httpClient.get<ApiTicket>(`/api/tickets/${ticketId}/`, undefined, undefined, { signal });
       
       let completeTicketData: any;
       if (Array.isArray(currentTicket)) {
@@ -209,27 +307,15 @@ export class TicketService {
         throw new Error('Could not get current ticket data for update');
       }
 
-      // Clean and fix the data before merging
-      const cleanedCurrentData = { ...completeTicketData };
+      // The schema turns text estado/prioridad ('En Progreso', 'Alta') into the numeric IDs WispHub expects
+      const cleanedCurrentData: any = ApiPayloadValidator.parse<ApiTicket>(ApiTicketSchema, completeTicketData, `/api/tickets/${ticketId}/`);
       
-      // Convert text values to numeric IDs that WispHub expects
-      if (cleanedCurrentData.prioridad === 'Alta') {
-        cleanedCurrentData.prioridad = 3; // 3 = Alta
-      } else if (cleanedCurrentData.prioridad === 'Normal') {
-        cleanedCurrentData.prioridad = 2; // 2 = Normal  
-      } else if (cleanedCurrentData.prioridad === 'Baja') {
-        cleanedCurrentData.prioridad = 1; // 1 = Baja
+      // Text the schema did not recognize: fall back to Nuevo / Normal
+      if (typeof cleanedCurrentData.estado !== 'number') {
+        cleanedCurrentData.estado = 1;
       }
-      
-      // Convert estado text to number if it's still text
-      if (typeof cleanedCurrentData.estado === 'string') {
-        const estadoMap: Record<string, number> = {
-          'Nuevo': 1,
-          'En Progreso': 2,
-          'Resuelto': 3,
-          'Cerrado': 4
-        };
-        cleanedCurrentData.estado = estadoMap[cleanedCurrentData.estado] || 1;
+      if (typeof cleanedCurrentData.prioridad !== 'number') {
+        cleanedCurrentData.prioridad = 2;
       }
       
       // Fix asuntos_default - map to valid option
@@ -317,8 +403,13 @@ export class TicketService {
       // Try PUT instead of PATCH
       const response = await this.httpClient.put<ApiTicket>(
         `/api/tickets/${ticketId}/`,
-        putData
+        putData,
+        { signal }
       );
+      this.httpClient.invalidateCache([
+        CACHE_TAGS.ticket(ticketId),
+        ...(cleanedCurrentData.servicio !== undefined ? [CACHE_TAGS.ticketsServicio(cleanedCurrentData.servicio)] : [])
+      ]);
 
       // Log the raw response for debugging
       Logger.info('API Response for actualizar_ticket', {
@@ -329,18 +420,21 @@ export class TicketService {
 
       // Transform to user-friendly format
       let ticket;
+      const toTicket = (apiTicket: unknown) => DataTransformer.ticketToUserFriendly(
+        ApiPayloadValidator.parse<ApiTicket>(ApiTicketSchema, apiTicket, `/api/tickets/${ticketId}/`)
+      );
       
       // Handle different response formats from WispHub API
       if (Array.isArray(response)) {
         // If API returns array, take first item
-        ticket = response.length > 0 ? DataTransformer.ticketToUserFriendly(response[0]) : null;
+        ticket = response.length > 0 ? toTicket(response[0]) : null;
       } else if (response && typeof response === 'object') {
         // Check if it's a paginated response
         if ('results' in response && Array.isArray(response.results)) {
-          ticket = response.results.length > 0 ? DataTransformer.ticketToUserFriendly(response.results[0]) : null;
+          ticket = response.results.length > 0 ? toTicket(response.results[0]) : null;
         } else {
           // Direct object response
-          ticket = DataTransformer.ticketToUserFriendly(response);
+          ticket = toTicket(response);
         }
       } else {
         throw new Error(`Respuesta inesperada de la API: ${typeof response}`);
@@ -354,7 +448,7 @@ export class TicketService {
       let verifiedTicket: any = null;
       try {
         Logger.info('Verifying ticket update was saved', { ticketId });
-        const verifyResponse = await this.httpClient.get<ApiTicket>(`/api/tickets/${ticketId}/`);
+        const verifyResponse = await this.httpClient.get<ApiTicket>(`/api/tickets/${ticketId}/`, undefined, undefined, { signal });
         if (Array.isArray(verifyResponse)) {
           verifiedTicket = verifyResponse.length > 0 ? verifyResponse[0] : null;
         } else if (verifyResponse && typeof verifyResponse === 'object') {
@@ -377,7 +471,7 @@ export class TicketService {
           });
           
           // Use the verified ticket data for the response
-          ticket = DataTransformer.ticketToUserFriendly(verifiedTicket);
+          ticket = toTicket(verifiedTicket);
         } else {
           Logger.warn('Could not verify ticket update', { ticketId });
         }
@@ -437,7 +531,7 @@ export class TicketService {
   }
 
   /**
-   * Clear service cache (useful for testing)
+   * Clear the account's cache, shared with the other services (useful for testing)
    */
   clearCache(): void {
     this.httpClient.clearCache();
@@ -0,0 +1,199 @@
+/**
+ * Seeded data for the WispHub simulator
+ * Deterministic: every start serves the same clientes, tickets and saldos
+ */
+
+import type { ApiCliente, ApiFacturaPendiente, ApiSaldo, ApiTicket } from '../types/wisphub.types.js';
+
+export interface SimulatorPago {
+  id: number;
+  servicio: number;
+  monto: number;
+  metodo_pago: string;
+  fecha_pago: string;
+}
+
+export interface SimulatorState {
+  clientes: ApiCliente[];
+  tickets: ApiTicket[];
+  saldos: Map<number, ApiSaldo>;
+  pagos: SimulatorPago[];
+  nextTicketId: number;
+  nextPagoId: number;
+}
+
+const ZONAS = [
+  { id: 1, nombre: 'Centro' },
+  { id: 2, nombre: 'Norte' },
+  { id: 3, nombre: 'Sur' }
+];
+
+const PLANES = [
+  { id: 1, nombre: 'Básico 10 Mbps', precio: '350.00' },
+  { id: 2, nombre: 'Hogar 20 Mbps', precio: '450.00' },
+  { id: 3, nombre: 'Premium 50 Mbps', precio: '650.00' },
+  { id: 4, nombre: 'Empresarial 100 Mbps', precio: '1200.00' }
+];
+
+const TECNICOS = [
+  { id: 11, nombre: 'Carlos Méndez' },
+  { id: 12, nombre: 'Lucía Torres' },
+  { id: 13, nombre: 'Jorge Ramírez' }
+];
+
+const NOMBRES = ['Ana', 'Luis', 'María', 'José', 'Carmen', 'Miguel', 'Laura', 'Pedro'];
+const APELLIDOS = ['García López', 'Hernández Ruiz', 'Martínez Soto'];
+
+const ASUNTOS = [
+  ['Sin conexión a internet', 'El cliente reporta que no tiene servicio desde la mañana.'],
+  ['Internet lento', 'Velocidad muy por debajo del plan contratado en horario nocturno.'],
+  ['Cambio de contraseña WiFi', 'Solicita cambiar la contraseña de la red inalámbrica.'],
+  ['Intermitencia', 'La conexión se cae varias veces al día.']
+];
+
+export const FIRST_SERVICIO_ID = 1001;
+const CLIENTE_COUNT = 24;
+const FIRST_TICKET_ID = 5001;
+
+/**
+ * Fresh simulator state
+ */
+export function createSeedData(): SimulatorState {
+  const clientes: ApiCliente[] = [];
+  const tickets: ApiTicket[] = [];
+  const saldos = new Map<number, ApiSaldo>();
+
+  for (let i = 0; i < CLIENTE_COUNT; i++) {
+    const id = FIRST_SERVICIO_ID + i;
+    const zona = ZONAS[i % ZONAS.length];
+    const plan = PLANES[i % PLANES.length];
+    const tecnico = TECNICOS[i % TECNICOS.length];
+    const nombre = `${NOMBRES[i % NOMBRES.length]} ${APELLIDOS[i % APELLIDOS.length]}`;
+    const usuario = `${NOMBRES[i % NOMBRES.length].toLowerCase()}${id}`;
+    const estado = i % 11 === 10 ? 'Cancelado' : i % 7 === 6 ? 'Suspendido' : 'Activo';
+
+    // Every third cliente owes one or two invoices
+    const facturas: ApiFacturaPendiente[] = i % 3 === 2
+      ? Array.from({ length: 1 + (i % 2) }, (_, n) => ({
+          id_factura: id * 10 + n,
+          monto: parseFloat(plan.precio),
+          fecha_vencimiento: formatDate(daysAgo(15 + n * 30)),
+          dias_vencido: 15 + n * 30
+        }))
+      : [];
+    const deuda = facturas.reduce((sum, factura) => sum + factura.monto, 0);
+
+    clientes.push({
+      id_servicio: id,
+      usuario,
+      nombre,
+      email: `${usuario}@example.com`,
+      cedula: `CED${id}`,
+      direccion: `Calle ${10 + i} #${100 + i}`,
+      localidad: `Colonia ${zona.nombre}`,
+      ciudad: 'Ciudad Demo',
+      telefono: `55${String(10000000 + id * 37).slice(0, 8)}`,
+      descuento: '0.00',
+      saldo: (-deuda).toFixed(2),
+      rfc: '',
+      informacion_adicional: null,
+      notificacion_sms: i % 2 === 0,
+      aviso_pantalla: false,
+      notificaciones_push: true,
+      auto_activar_servicio: true,
+      firewall: false,
+      servicio: plan.nombre,
+      password_servicio: `pppoe-${id}`,
+      server_hotspot: '',
+      ip: `10.${zona.id}.0.${10 + i}`,
+      ip_local: null,
+      estado,
+      modelo_antena: 'LiteBeam M5',
+      password_cpe: `cpe-${id}`,
+      mac_cpe: macFor(id, 1),
+      interfaz_lan: 'ether2',
+      modelo_router_wifi: 'TP-Link Archer C6',
+      ip_router_wifi: `192.168.${i}.1`,
+      mac_router_wifi: macFor(id, 2),
+      usuario_router_wifi: 'admin',
+      password_router_wifi: `router-${id}`,
+      ssid_router_wifi: `WispHub_${id}`,
+      password_ssid_router_wifi: `wifi-${id}`,
+      comentarios: '',
+      coordenadas: `19.4${i},-99.1${i}`,
+      costo_instalacion: '500.00',
+      precio_plan: plan.precio,
+      forma_contratacion: 'Mensual',
+      sn_onu: '',
+      estado_facturas: facturas.length > 0 ? 'Pendiente' : 'Pagadas',
+      fecha_instalacion: formatDate(daysAgo(400 - i * 10), true),
+      fecha_cancelacion: estado === 'Cancelado' ? formatDate(daysAgo(20), true) : null,
+      fecha_corte: formatDate(daysAgo(-10)),
+      ultimo_cambio: formatDate(daysAgo(i), true),
+      plan_internet: { id: plan.id, nombre: plan.nombre },
+      zona: { ...zona },
+      router: {
+        id: zona.id,
+        nombre: `Router ${zona.nombre}`,
+        falla_general: false,
+        falla_general_descripcion: ''
+      },
+      sectorial: null,
+      tecnico: { ...tecnico }
+    });
+
+    saldos.set(id, {
+      id_servicio: id,
+      saldo_actual: -deuda,
+      fecha_ultimo_pago: formatDate(daysAgo(facturas.length > 0 ? 45 : 5)),
+      facturas_pendientes: facturas
+    });
+
+    // Two tickets for the first 15 clientes: one closed, one still open (every
+    // fifth open one without a técnico, which the API sends as null)
+    if (i < 15) {
+      for (let n = 0; n < 2; n++) {
+        const [asunto, descripcion] = ASUNTOS[(i + n) % ASUNTOS.length];
+        const cerrado = n === 0;
+        tickets.push({
+          id: FIRST_TICKET_ID + tickets.length,
+          servicio: id,
+          asunto,
+          descripcion,
+          estado: cerrado ? 4 : 1 + (i % 2),
+          prioridad: 1 + ((i + n) % 4),
+          tecnico: !cerrado && i % 5 === 4 ? null : tecnico.nombre,
+          fecha_creacion: formatDate(daysAgo(cerrado ? 60 - i : 3), true),
+          fecha_cierre: cerrado ? formatDate(daysAgo(58 - i), true) : undefined
+        });
+      }
+    }
+  }
+
+  return {
+    clientes,
+    tickets,
+    saldos,
+    pagos: [],
+    nextTicketId: FIRST_TICKET_ID + tickets.length,
+    nextPagoId: 1
+  };
+}
+
+/**
+ * WispHub date format: dd/MM/yyyy, optionally with HH:mm
+ */
+export function formatDate(date: Date, withTime = false): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const day = `${pad(date.getDate())}/${pad(date.getMonth() + 1)}/${date.getFullYear()}`;
+  return withTime ? `${day} ${pad(date.getHours())}:${pad(date.getMinutes())}` : day;
+}
+
+function daysAgo(days: number): Date {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+}
+
+function macFor(id: number, device: number): string {
+  const hex = (id * 16 + device).toString(16).padStart(8, '0');
+  return `AA:BB:${hex.match(/../g)!.join(':').toUpperCase()}`;
+}
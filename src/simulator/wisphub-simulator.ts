@@ -0,0 +1,428 @@
+/**
+ * Local WispHub API simulator for integration tests and demos
+ * Serves the endpoints this server uses from seeded in-memory data, with
+ * DRF-style pagination and errors and the quirks of the real API:
+ * - Estado changes on /api/clientes/{id}/ are accepted but revert to "Activo"
+ * - email, telefono and direccion updates are accepted but not saved
+ * - /api/tickets/{id}/ returns estado and prioridad as text ("En Progreso", "Alta")
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { createSeedData, formatDate } from './seed-data.js';
+import { Logger } from '../utils/logger.js';
+import type { SimulatorState } from './seed-data.js';
+import type { ApiCliente, ApiTicket } from '../types/wisphub.types.js';
+
+export interface SimulatorOptions {
+  host: string;
+  port: number;
+  apiKey?: string; // Only this key is accepted; any key when unset
+}
+
+interface RouteContext {
+  req: IncomingMessage;
+  url: URL;
+  params: string[];
+  body: Record<string, unknown>;
+  state: SimulatorState;
+}
+
+interface SimulatorResult {
+  status: number;
+  data: unknown;
+  headers?: Record<string, string>;
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: (ctx: RouteContext) => SimulatorResult;
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const MAX_BODY_BYTES = 1024 * 1024;
+
+// Fields the real API acknowledges on update but never stores
+const UNSAVED_CLIENTE_FIELDS: (keyof ApiCliente)[] = ['email', 'telefono', 'direccion'];
+const UPDATABLE_CLIENTE_FIELDS: (keyof ApiCliente)[] = [
+  'estado', 'email', 'telefono', 'direccion', 'localidad', 'ciudad', 'comentarios',
+  'notificacion_sms', 'notificaciones_push'
+];
+
+const ESTADO_TICKET_TEXT: Record<number, string> = { 1: 'Nuevo', 2: 'En Progreso', 3: 'Resuelto', 4: 'Cerrado' };
+const PRIORIDAD_TICKET_TEXT: Record<number, string> = { 1: 'Baja', 2: 'Normal', 3: 'Alta', 4: 'Muy Alta' };
+
+const routes: Route[] = [
+  { method: 'GET', pattern: /^\/api\/clientes\/$/, handler: listClientes },
+  { method: 'GET', pattern: /^\/api\/clientes\/(\d+)\/$/, handler: getCliente },
+  { method: 'PUT', pattern: /^\/api\/clientes\/(\d+)\/$/, handler: updateCliente },
+  { method: 'PATCH', pattern: /^\/api\/clientes\/(\d+)\/$/, handler: updateCliente },
+  { method: 'GET', pattern: /^\/api\/clientes\/(\d+)\/saldo\/$/, handler: getSaldo },
+  { method: 'GET', pattern: /^\/api\/tickets\/$/, handler: listTickets },
+  { method: 'POST', pattern: /^\/api\/tickets\/$/, handler: createTicket },
+  { method: 'GET', pattern: /^\/api\/tickets\/(\d+)\/$/, handler: getTicket },
+  { method: 'PUT', pattern: /^\/api\/tickets\/(\d+)\/$/, handler: updateTicket },
+  { method: 'PATCH', pattern: /^\/api\/tickets\/(\d+)\/$/, handler: updateTicket },
+  { method: 'GET', pattern: /^\/api\/pagos\/$/, handler: listPagos },
+  { method: 'POST', pattern: /^\/api\/pagos\/$/, handler: createPago }
+];
+
+/**
+ * HTTP server over `state` (fresh seed data by default); call listen() yourself
+ */
+export function createSimulator(options: Pick<SimulatorOptions, 'apiKey'> = {}, state: SimulatorState = createSeedData()): Server {
+  return createServer(async (req, res) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+    try {
+      const authError = checkAuth(req, options.apiKey);
+      if (authError) {
+        return send(res, authError);
+      }
+
+      const matching = routes.filter(route => route.pattern.test(url.pathname));
+      if (matching.length === 0) {
+        return send(res, notFound());
+      }
+
+      // Like DRF, every view answers OPTIONS and lists its methods in Allow
+      const allow = [...matching.map(r => r.method), 'OPTIONS'].join(', ');
+      if (req.method === 'OPTIONS') {
+        return send(res, { status: 200, data: { name: 'WispHub Simulator', renders: ['application/json'] }, headers: { Allow: allow } });
+      }
+
+      const route = matching.find(r => r.method === req.method);
+      if (!route) {
+        return send(res, { status: 405, data: { detail: `Método "${req.method}" no permitido.` }, headers: { Allow: allow } });
+      }
+
+      let raw: unknown;
+      try {
+        raw = await readJsonBody(req);
+      } catch (error) {
+        return send(res, { status: 400, data: { detail: `JSON parse error - ${error instanceof Error ? error.message : String(error)}` } });
+      }
+
+      // Every write expects a JSON object, as the real API does
+      if (req.method !== 'GET' && !isJsonObject(raw)) {
+        return send(res, { status: 400, data: { non_field_errors: ['Datos inválidos. Se esperaba un diccionario.'] } });
+      }
+      const body = isJsonObject(raw) ? raw : {};
+
+      const params = url.pathname.match(route.pattern)!.slice(1);
+      send(res, route.handler({ req, url, params, body, state }));
+    } catch (error) {
+      Logger.error('Simulator request failed', error, { method: req.method, path: url.pathname });
+      send(res, { status: 500, data: { detail: 'Error interno del servidor.' } });
+    }
+  });
+}
+
+/**
+ * Start the simulator and resolve once it is listening
+ */
+export function startSimulator(options: SimulatorOptions): Promise<Server> {
+  const server = createSimulator(options);
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => {
+      Logger.info('WispHub simulator listening', { host: options.host, port: options.port });
+      resolve(server);
+    });
+  });
+}
+
+/**
+ * Route handlers
+ */
+function listClientes({ url, state, req }: RouteContext): SimulatorResult {
+  const query = url.searchParams;
+  let clientes = state.clientes;
+
+  const estado = query.get('estado');
+  if (estado) clientes = clientes.filter(c => c.estado.toLowerCase() === estado.toLowerCase());
+
+  const zona = query.get('zona');
+  if (zona) clientes = clientes.filter(c => String(c.zona.id) === zona);
+
+  const plan = query.get('plan');
+  if (plan) clientes = clientes.filter(c => normalize(c.plan_internet.nombre).includes(normalize(plan)));
+
+  const email = query.get('email');
+  if (email) clientes = clientes.filter(c => c.email.toLowerCase() === email.toLowerCase());
+
+  const search = query.get('search');
+  if (search) {
+    const term = normalize(search);
+    clientes = clientes.filter(c => [c.nombre, c.email, c.usuario].some(value => normalize(value).includes(term)));
+  }
+
+  return { status: 200, data: paginate(clientes, url, req) };
+}
+
+function getCliente({ params, state }: RouteContext): SimulatorResult {
+  const cliente = findCliente(state, params[0]);
+  return cliente ? { status: 200, data: cliente } : notFound();
+}
+
+function updateCliente({ params, body, state, req }: RouteContext): SimulatorResult {
+  const cliente = findCliente(state, params[0]);
+  if (!cliente) return notFound();
+
+  // Values are echoed as sent, unvalidated, like the real API does
+  const changes: Partial<Record<keyof ApiCliente, unknown>> = {};
+  for (const field of UPDATABLE_CLIENTE_FIELDS) {
+    if (body[field] !== undefined) changes[field] = body[field];
+  }
+
+  if (req.method === 'PUT' && Object.keys(changes).length === 0) {
+    return validationError({ non_field_errors: ['No se proporcionaron campos para actualizar.'] });
+  }
+
+  // Persist what the real API keeps: estado always ends up "Activo", contact fields are dropped
+  const saved = { ...changes };
+  UNSAVED_CLIENTE_FIELDS.forEach(field => delete saved[field]);
+  if (saved.estado !== undefined) saved.estado = 'Activo';
+
+  Object.assign(cliente, saved, { ultimo_cambio: formatDate(new Date(), true) });
+
+  // ...but the response echoes the request, as if everything was saved
+  return { status: 200, data: { ...cliente, ...changes } };
+}
+
+function getSaldo({ params, state }: RouteContext): SimulatorResult {
+  const saldo = state.saldos.get(Number(params[0]));
+  return saldo ? { status: 200, data: saldo } : notFound();
+}
+
+function listTickets({ url, state, req }: RouteContext): SimulatorResult {
+  const servicio = url.searchParams.get('servicio');
+  const tickets = servicio ? state.tickets.filter(t => String(t.servicio) === servicio) : state.tickets;
+  return { status: 200, data: paginate(tickets, url, req) };
+}
+
+function createTicket({ body, state }: RouteContext): SimulatorResult {
+  const errors = requireFields(body, ['servicio', 'asunto', 'descripcion']);
+  if (errors) return errors;
+
+  if (!findCliente(state, body.servicio)) {
+    return validationError({ servicio: [`Clave primaria "${body.servicio}" inválida - objeto no existe.`] });
+  }
+
+  const prioridad = body.prioridad === undefined ? 2 : Number(body.prioridad);
+  if (!PRIORIDAD_TICKET_TEXT[prioridad]) {
+    return validationError({ prioridad: [`"${body.prioridad}" no es una elección válida.`] });
+  }
+
+  const ticket: ApiTicket = {
+    id: state.nextTicketId++,
+    servicio: Number(body.servicio),
+    asunto: String(body.asunto),
+    descripcion: String(body.descripcion),
+    estado: 1,
+    prioridad,
+    tecnico: body.tecnico ? String(body.tecnico) : null,
+    fecha_creacion: formatDate(new Date(), true)
+  };
+  state.tickets.push(ticket);
+
+  return { status: 201, data: ticket };
+}
+
+function getTicket({ params, state }: RouteContext): SimulatorResult {
+  const ticket = findTicket(state, params[0]);
+  if (!ticket) return notFound();
+
+  // The detail endpoint answers with labels instead of the numeric IDs the list uses
+  return {
+    status: 200,
+    data: {
+      ...ticket,
+      estado: ESTADO_TICKET_TEXT[ticket.estado],
+      prioridad: PRIORIDAD_TICKET_TEXT[ticket.prioridad]
+    }
+  };
+}
+
+function updateTicket({ params, body, state }: RouteContext): SimulatorResult {
+  const ticket = findTicket(state, params[0]);
+  if (!ticket) return notFound();
+
+  const fieldErrors: Record<string, string[]> = {};
+  for (const [field, labels] of [['estado', ESTADO_TICKET_TEXT], ['prioridad', PRIORIDAD_TICKET_TEXT]] as const) {
+    if (body[field] !== undefined && !labels[Number(body[field])]) {
+      fieldErrors[field] = [`"${body[field]}" no es una elección válida.`];
+    }
+  }
+  if (Object.keys(fieldErrors).length > 0) {
+    return validationError(fieldErrors);
+  }
+
+  if (body.estado !== undefined) {
+    ticket.estado = Number(body.estado);
+    ticket.fecha_cierre = ticket.estado >= 3 ? formatDate(new Date(), true) : undefined;
+  }
+  if (body.prioridad !== undefined) ticket.prioridad = Number(body.prioridad);
+  if (body.asunto !== undefined) ticket.asunto = String(body.asunto);
+  if (body.descripcion !== undefined) ticket.descripcion = String(body.descripcion);
+  if (body.tecnico !== undefined) ticket.tecnico = String(body.tecnico);
+
+  return { status: 200, data: ticket };
+}
+
+function listPagos({ url, state, req }: RouteContext): SimulatorResult {
+  const servicio = url.searchParams.get('servicio');
+  const pagos = servicio ? state.pagos.filter(p => String(p.servicio) === servicio) : state.pagos;
+  return { status: 200, data: paginate(pagos, url, req) };
+}
+
+function createPago({ body, state }: RouteContext): SimulatorResult {
+  const errors = requireFields(body, ['servicio', 'monto', 'metodo_pago']);
+  if (errors) return errors;
+
+  const cliente = findCliente(state, body.servicio);
+  if (!cliente) {
+    return validationError({ servicio: [`Clave primaria "${body.servicio}" inválida - objeto no existe.`] });
+  }
+
+  const monto = Number(body.monto);
+  if (!(monto > 0)) {
+    return validationError({ monto: ['Asegúrese de que este valor sea mayor que 0.'] });
+  }
+
+  const pago = {
+    id: state.nextPagoId++,
+    servicio: cliente.id_servicio,
+    monto,
+    metodo_pago: String(body.metodo_pago),
+    fecha_pago: body.fecha_pago ? String(body.fecha_pago) : new Date().toISOString()
+  };
+  state.pagos.push(pago);
+
+  // Apply the payment to the oldest pending invoices first
+  const saldo = state.saldos.get(cliente.id_servicio);
+  if (saldo) {
+    let restante = monto;
+    saldo.facturas_pendientes = saldo.facturas_pendientes
+      .sort((a, b) => b.dias_vencido - a.dias_vencido)
+      .filter(factura => {
+        if (restante >= factura.monto) {
+          restante -= factura.monto;
+          return false;
+        }
+        return true;
+      });
+    saldo.saldo_actual += monto;
+    saldo.fecha_ultimo_pago = formatDate(new Date());
+
+    cliente.saldo = saldo.saldo_actual.toFixed(2);
+    cliente.estado_facturas = saldo.facturas_pendientes.length > 0 ? 'Pendiente' : 'Pagadas';
+  }
+
+  return { status: 201, data: pago };
+}
+
+/**
+ * Helper functions
+ */
+function checkAuth(req: IncomingMessage, apiKey?: string): SimulatorResult | null {
+  const header = req.headers.authorization;
+  if (!header) {
+    return { status: 401, data: { detail: 'Las credenciales de autenticación no se proveyeron.' } };
+  }
+
+  const match = header.match(/^Api-Key\s+(.+)$/);
+  if (!match || (apiKey && match[1] !== apiKey)) {
+    return { status: 401, data: { detail: 'Api-Key inválida.' } };
+  }
+
+  return null;
+}
+
+// Django REST Framework LimitOffsetPagination
+function paginate<T>(items: T[], url: URL, req: IncomingMessage) {
+  const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(url.searchParams.get('limit') || '', 10) || DEFAULT_PAGE_SIZE));
+  const offset = Math.max(0, parseInt(url.searchParams.get('offset') || '', 10) || 0);
+
+  const pageUrl = (pageOffset: number) => {
+    const link = new URL(url.pathname + url.search, `http://${req.headers.host || 'localhost'}`);
+    link.searchParams.set('limit', String(limit));
+    link.searchParams.set('offset', String(pageOffset));
+    return link.href;
+  };
+
+  return {
+    count: items.length,
+    next: offset + limit < items.length ? pageUrl(offset + limit) : null,
+    previous: offset > 0 ? pageUrl(Math.max(0, offset - limit)) : null,
+    results: items.slice(offset, offset + limit)
+  };
+}
+
+function findCliente(state: SimulatorState, id: unknown): ApiCliente | undefined {
+  return state.clientes.find(c => c.id_servicio === Number(id));
+}
+
+function findTicket(state: SimulatorState, id: unknown): ApiTicket | undefined {
+  return state.tickets.find(t => t.id === Number(id));
+}
+
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function requireFields(body: Record<string, unknown>, fields: string[]): SimulatorResult | null {
+  const errors: Record<string, string[]> = {};
+  for (const field of fields) {
+    if (body[field] === undefined || body[field] === null || body[field] === '') {
+      errors[field] = ['Este campo es requerido.'];
+    }
+  }
+  return Object.keys(errors).length > 0 ? validationError(errors) : null;
+}
+
+function validationError(errors: Record<string, string[]>): SimulatorResult {
+  return { status: 400, data: errors };
+}
+
+function notFound(): SimulatorResult {
+  return { status: 404, data: { detail: 'No encontrado.' } };
+}
+
+function normalize(value: string): string {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error('Request body too large');
+    }
+    chunks.push(chunk);
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf8');
+  return raw.trim() === '' ? undefined : JSON.parse(raw);
+}
+
+function send(res: ServerResponse, result: SimulatorResult): void {
+  res.writeHead(result.status, { 'Content-Type': 'application/json', ...result.headers });
+  res.end(JSON.stringify(result.data));
+}
+
+if (require.main === module) {
+  startSimulator({
+    host: process.env.WISPHUB_SIMULATOR_HOST || '127.0.0.1',
+    port: parseInt(process.env.WISPHUB_SIMULATOR_PORT || '8787'),
+    apiKey: process.env.WISPHUB_SIMULATOR_API_KEY || undefined
+  }).catch(error => {
+    console.error('WispHub simulator failed to start:', error);
+    process.exit(1);
+  });
+}
@@ -3,19 +3,17 @@
  * Update client contact information and settings
  */
 
-import { z } from 'zod';
-import { ClienteService } from '../../services/cliente.service.js';
-import { ActualizarClienteInputSchema } from '../../validators/schemas.js';
+import { ActualizarClienteInputSchema, ActualizarClienteOutputSchema } from '../../validators/schemas.js';
 import { Logger } from '../../utils/logger.js';
+import { ErrorHandler } from '../../utils/error-handler.js';
+import { defineTool } from '../tool-definition.js';
+import type { ToolContext, ToolHandlerResult } from '../tool-definition.js';
 import type { ActualizarClienteInput } from '../../types/wisphub.types.js';
 
-// Service instance
-const clienteService = new ClienteService();
-
 /**
  * Tool definition for MCP
  */
-export const actualizarClienteTool = {
+export const actualizarClienteTool = defineTool({
   name: 'actualizar_cliente',
   description: `Actualiza la información técnica y configuraciones de un cliente.
 
@@ -34,68 +32,31 @@ Casos de uso recomendados:
 
 Importante: Al menos un campo debe ser proporcionado para la actualización.`,
 
-  inputSchema: {
-    type: 'object',
-    properties: {
-      id_servicio: {
-        type: 'number',
-        minimum: 1,
-        description: 'ID del servicio del cliente a actualizar'
-      },
-      email: {
-        type: 'string',
-        format: 'email',
-        description: 'Nueva dirección de email del cliente'
-      },
-      telefono: {
-        type: 'string',
-        description: 'Nuevo número de teléfono'
-      },
-      direccion: {
-        type: 'string',
-        description: 'Nueva dirección física'
-      },
-      localidad: {
-        type: 'string',
-        description: 'Nueva localidad'
-      },
-      ciudad: {
-        type: 'string',
-        description: 'Nueva ciudad'
-      },
-      comentarios: {
-        type: 'string',
-        description: 'Comentarios o notas adicionales sobre el cliente'
-      },
-      notificacion_sms: {
-        type: 'boolean',
-        description: 'Habilitar o deshabilitar notificaciones SMS'
-      },
-      notificaciones_push: {
-        type: 'boolean',
-        description: 'Habilitar o deshabilitar notificaciones push'
-      }
-    },
-    required: ['id_servicio'],
-    additionalProperties: false,
-    description: 'Parámetros para actualizar información del cliente. Al menos un campo opcional debe ser proporcionado.'
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true
   },
 
+  argsSchema: ActualizarClienteInputSchema,
+  resultSchema: ActualizarClienteOutputSchema,
+
   /**
    * Tool handler
    */
-  async handler(args: unknown): Promise<string> {
+  async handler(validatedArgs, { services, signal }: ToolContext): Promise<ToolHandlerResult<typeof ActualizarClienteOutputSchema>> {
     const timer = Logger.startTimer();
     
     try {
-      // Validate input
-      const validatedArgs = ActualizarClienteInputSchema.parse(args);
+      const { cuenta, clientes: clienteService } = services(validatedArgs.cuenta);
       
       // Check that at least one update field is provided
-      const updateFields = Object.keys(validatedArgs).filter(key => key !== 'id_servicio');
+      const updateFields = Object.keys(validatedArgs).filter(key => key !== 'id_servicio' && key !== 'cuenta');
       
       if (updateFields.length === 0) {
-        return `❌ Error: Debe proporcionar al menos un campo para actualizar (comentarios, notificacion_sms, etc.)`;
+        return ErrorHandler.toToolError(ErrorHandler.createValidationError(
+          'Debe proporcionar al menos un campo para actualizar (comentarios, notificacion_sms, etc.)'
+        ));
       }
 
       // Separate fields by API capability (based on testing)
@@ -118,25 +79,40 @@ Importante: Al menos un campo debe ser proporcionado para la actualización.`,
       });
 
       // Get current client data for comparison
-      const clienteActualResult = await clienteService.obtenerCliente(validatedArgs.id_servicio.toString());
+      const clienteActualResult = await clienteService.obtenerCliente(validatedArgs.id_servicio.toString(), signal);
       
-      if (!clienteActualResult.success || !clienteActualResult.data) {
-        return `❌ Error: Cliente con ID ${validatedArgs.id_servicio} no encontrado`;
+      if (!clienteActualResult.success) {
+        return ErrorHandler.handleError(new Error(clienteActualResult.error || 'Unknown error'), {
+          tool: 'actualizar_cliente',
+          operation: 'obtener_cliente_actual'
+        });
+      }
+
+      if (!clienteActualResult.data) {
+        return ErrorHandler.toToolError(ErrorHandler.createNotFoundError('cliente', validatedArgs.id_servicio));
       }
 
       const clienteActual = clienteActualResult.data;
 
       // Call service
-      const result = await clienteService.actualizarCliente(validatedArgs);
+      const result = await clienteService.actualizarCliente(validatedArgs, signal);
       
       const duration = timer();
 
       if (!result.success) {
-        Logger.error('Actualizar cliente falló', new Error(result.error || 'Unknown error'));
-        return `❌ Error: ${result.error}`;
+        return ErrorHandler.handleError(new Error(result.error || 'Unknown error'), {
+          tool: 'actualizar_cliente',
+          operation: 'actualizar_cliente',
+          duration
+        });
       }
 
       const clienteActualizado = result.data;
+
+      if (!clienteActualizado) {
+        Logger.error('Actualizar cliente falló', new Error('No cliente data returned'));
+        return ErrorHandler.toToolError(ErrorHandler.createEmptyResponseError('actualizar_cliente'));
+      }
       
       Logger.info('Actualizar cliente completado', {
         tool: 'actualizar_cliente',
@@ -146,31 +122,31 @@ Importante: Al menos un campo debe ser proporcionado para la actualización.`,
       });
 
       // Format response for MCP client with debugging info and limitation warning
-      return limitationWarning + formatClienteUpdateResponse(
-        clienteActual, 
-        clienteActualizado, 
-        validatedArgs,
-        result.debugInfo
-      );
+      return {
+        text: limitationWarning + formatClienteUpdateResponse(
+          clienteActual, 
+          clienteActualizado, 
+          validatedArgs,
+          result.debugInfo
+        ),
+        structuredContent: {
+          cuenta,
+          cliente: clienteActualizado,
+          campos_actualizados: updateFields,
+          campos_no_persistentes: requestedContactFields
+        }
+      };
 
     } catch (error) {
       const duration = timer();
-      Logger.error('Actualizar cliente error', error, {
+      return ErrorHandler.handleError(error, {
         tool: 'actualizar_cliente',
-        duration_ms: duration
+        operation: 'actualizar_cliente',
+        duration
       });
-
-      if (error instanceof z.ZodError) {
-        const issues = error.issues.map(issue => 
-          `${issue.path.join('.')}: ${issue.message}`
-        ).join(', ');
-        return `❌ Error de validación: ${issues}`;
-      }
-
-      return `❌ Error inesperado: ${error instanceof Error ? error.message : String(error)}`;
     }
   }
-};
+});
 
 /**
  * Format response for MCP client consumption
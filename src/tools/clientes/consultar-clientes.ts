@@ -3,19 +3,17 @@
  * Most used tool - client listing with advanced filters
  */
 
-import { z } from 'zod';
-import { ClienteService } from '../../services/cliente.service.js';
-import { ConsultarClientesInputSchema } from '../../validators/schemas.js';
+import { ConsultarClientesInputSchema, ConsultarClientesOutputSchema } from '../../validators/schemas.js';
 import { Logger } from '../../utils/logger.js';
+import { ErrorHandler } from '../../utils/error-handler.js';
+import { defineTool } from '../tool-definition.js';
+import type { ToolContext, ToolHandlerResult } from '../tool-definition.js';
 import type { ConsultarClientesInput } from '../../types/wisphub.types.js';
 
-// Service instance
-const clienteService = new ClienteService();
-
 /**
  * Tool definition for MCP
  */
-export const consultarClientesTool = {
+export const consultarClientesTool = defineTool({
   name: 'consultar_clientes',
   description: `Lista clientes del sistema WispHub con filtros avanzados.
 
@@ -24,7 +22,7 @@ Esta herramienta permite consultar la base de clientes con múltiples filtros:
 - Zona: filtrar por zona específica
 - Plan: filtrar por tipo de plan
 - Búsqueda: buscar en nombre, apellido o email
-- Paginación: limit y offset para grandes listas
+- Paginación: limit y offset para grandes listas, o \`todos: true\` para recorrer todas las páginas
 
 Casos de uso típicos:
 - "Mostrar clientes activos de la zona 5"
@@ -34,56 +32,23 @@ Casos de uso típicos:
 
 Respuesta incluye información completa: contacto, estado, saldo, configuración de red.`,
 
-  inputSchema: {
-    type: 'object',
-    properties: {
-      estado: {
-        type: 'string',
-        enum: ['activo', 'suspendido', 'cancelado'],
-        description: 'Filtrar por estado del servicio'
-      },
-      zona: {
-        type: 'number',
-        minimum: 1,
-        description: 'Filtrar por zona específica'
-      },
-      plan: {
-        type: 'string',
-        minLength: 1,
-        description: 'Filtrar por tipo de plan'
-      },
-      search: {
-        type: 'string',
-        minLength: 1,
-        description: 'Buscar en nombre, apellido o email del cliente'
-      },
-      limit: {
-        type: 'number',
-        minimum: 1,
-        maximum: 100,
-        default: 20,
-        description: 'Número máximo de resultados (default: 20, max: 100)'
-      },
-      offset: {
-        type: 'number',
-        minimum: 0,
-        default: 0,
-        description: 'Número de resultados a omitir para paginación (default: 0)'
-      }
-    },
-    additionalProperties: false,
-    description: 'Filtros opcionales para la consulta de clientes'
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true
   },
 
+  argsSchema: ConsultarClientesInputSchema,
+  resultSchema: ConsultarClientesOutputSchema,
+
   /**
    * Tool handler
    */
-  async handler(args: unknown): Promise<string> {
+  async handler(validatedArgs, { services, signal }: ToolContext): Promise<ToolHandlerResult<typeof ConsultarClientesOutputSchema>> {
     const timer = Logger.startTimer();
     
     try {
-      // Validate input
-      const validatedArgs = ConsultarClientesInputSchema.parse(args);
+      const { cuenta, clientes: clienteService } = services(validatedArgs.cuenta);
       
       Logger.info('Consultar clientes iniciado', {
         tool: 'consultar_clientes',
@@ -91,16 +56,20 @@ Respuesta incluye información completa: contacto, estado, saldo, configuración
       });
 
       // Call service
-      const result = await clienteService.consultarClientes(validatedArgs);
+      const result = await clienteService.consultarClientes(validatedArgs, signal);
       
       const duration = timer();
 
       if (!result.success) {
-        Logger.error('Consultar clientes falló', new Error(result.error || 'Unknown error'));
-        return `❌ Error: ${result.error}`;
+        return ErrorHandler.handleError(new Error(result.error || 'Unknown error'), {
+          tool: 'consultar_clientes',
+          operation: 'consultar_clientes',
+          duration
+        });
       }
 
       const clientes = result.data || [];
+      const truncado = result.truncado ?? false;
       
       Logger.info('Consultar clientes completado', {
         tool: 'consultar_clientes',
@@ -109,31 +78,34 @@ Respuesta incluye información completa: contacto, estado, saldo, configuración
       });
 
       // Format response for MCP client
-      return formatClientesResponse(clientes, validatedArgs);
+      return {
+        text: formatClientesResponse(clientes, validatedArgs, truncado),
+        structuredContent: {
+          cuenta,
+          clientes,
+          total: clientes.length,
+          limit: validatedArgs.limit,
+          offset: validatedArgs.offset,
+          todos: validatedArgs.todos,
+          truncado
+        }
+      };
 
     } catch (error) {
       const duration = timer();
-      Logger.error('Consultar clientes error', error, {
+      return ErrorHandler.handleError(error, {
         tool: 'consultar_clientes',
-        duration_ms: duration
+        operation: 'consultar_clientes',
+        duration
       });
-
-      if (error instanceof z.ZodError) {
-        const issues = error.issues.map(issue => 
-          `${issue.path.join('.')}: ${issue.message}`
-        ).join(', ');
-        return `❌ Error de validación: ${issues}`;
-      }
-
-      return `❌ Error inesperado: ${error instanceof Error ? error.message : String(error)}`;
     }
   }
-};
+});
 
 /**
  * Format response for MCP client consumption
  */
-function formatClientesResponse(clientes: any[], filters: ConsultarClientesInput): string {
+function formatClientesResponse(clientes: any[], filters: ConsultarClientesInput, truncado: boolean): string {
   if (clientes.length === 0) {
     return `🔍 No se encontraron clientes con los filtros especificados.
 
@@ -179,7 +151,10 @@ ${formatFilters(filters)}
   });
 
   // Add pagination info
-  if (filters.limit && clientes.length === filters.limit) {
+  if (truncado) {
+    response.push(`📄 **Paginación:** Se alcanzó el tope de ${clientes.length} clientes; puede haber más`);
+    response.push(`💡 Agrega filtros (estado, zona, plan) para acotar la lista`);
+  } else if (!filters.todos && filters.limit && clientes.length === filters.limit) {
     response.push(`📄 **Paginación:** Mostrando ${filters.limit} resultados desde ${filters.offset || 0}`);
     response.push(`💡 Para ver más resultados, usa \`offset: ${(filters.offset || 0) + filters.limit}\``);
   }
@@ -208,8 +183,12 @@ function formatFilters(filters: ConsultarClientesInput): string {
   if (filters.zona) filterParts.push(`Zona: ${filters.zona}`);
   if (filters.plan) filterParts.push(`Plan: ${filters.plan}`);
   if (filters.search) filterParts.push(`Búsqueda: "${filters.search}"`);
-  if (filters.limit !== 20) filterParts.push(`Límite: ${filters.limit}`);
-  if (filters.offset && filters.offset > 0) filterParts.push(`Offset: ${filters.offset}`);
+  if (filters.todos) {
+    filterParts.push('Todas las páginas');
+  } else {
+    if (filters.limit !== 20) filterParts.push(`Límite: ${filters.limit}`);
+    if (filters.offset && filters.offset > 0) filterParts.push(`Offset: ${filters.offset}`);
+  }
 
   return filterParts.length > 0 ? filterParts.join(' | ') : 'Sin filtros';
 }
@@ -3,19 +3,17 @@
  * Get detailed financial information for a specific client
  */
 
-import { z } from 'zod';
-import { SaldoService } from '../../services/saldo.service.js';
-import { ConsultarSaldoInputSchema } from '../../validators/schemas.js';
+import { ConsultarSaldoInputSchema, ConsultarSaldoOutputSchema } from '../../validators/schemas.js';
 import { Logger } from '../../utils/logger.js';
+import { ErrorHandler } from '../../utils/error-handler.js';
+import { defineTool } from '../tool-definition.js';
+import type { ToolContext, ToolHandlerResult } from '../tool-definition.js';
 import type { ConsultarSaldoInput } from '../../types/wisphub.types.js';
 
-// Service instance
-const saldoService = new SaldoService();
-
 /**
  * Tool definition for MCP
  */
-export const consultarSaldoTool = {
+export const consultarSaldoTool = defineTool({
   name: 'consultar_saldo_cliente',
   description: `Consulta información financiera detallada de un cliente específico.
 
@@ -34,84 +32,73 @@ Casos de uso típicos:
 
 Esencial para decisiones de cobranza y atención al cliente.`,
 
-  inputSchema: {
-    type: 'object',
-    properties: {
-      servicio: {
-        type: 'number',
-        minimum: 1,
-        description: 'ID del servicio del cliente'
-      }
-    },
-    required: ['servicio'],
-    additionalProperties: false,
-    description: 'ID del servicio para consultar saldo'
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true
   },
 
+  argsSchema: ConsultarSaldoInputSchema,
+  resultSchema: ConsultarSaldoOutputSchema,
+
   /**
    * Tool handler
    */
-  async handler(args: unknown): Promise<string> {
+  async handler(validatedArgs, { services, signal }: ToolContext): Promise<ToolHandlerResult<typeof ConsultarSaldoOutputSchema>> {
     const timer = Logger.startTimer();
     
     try {
-      // Validate input using existing schema
-      const schema = z.object({
-        servicio: z.number().positive().describe('ID del servicio del cliente')
-      });
-      const validatedArgs = schema.parse(args);
+      const { cuenta, saldos: saldoService } = services(validatedArgs.cuenta);
       
       Logger.info('Consultar saldo iniciado', {
         tool: 'consultar_saldo_cliente',
-        servicio: validatedArgs.servicio
+        id_servicio: validatedArgs.id_servicio
       });
 
       // Call service
-      const result = await saldoService.consultarSaldo(validatedArgs.servicio);
+      const result = await saldoService.consultarSaldo(validatedArgs.id_servicio, signal);
       
       const duration = timer();
 
       if (!result.success) {
-        Logger.error('Consultar saldo falló', new Error(result.error || 'Unknown error'));
-        return `❌ Error: ${result.error}`;
+        return ErrorHandler.handleError(new Error(result.error || 'Unknown error'), {
+          tool: 'consultar_saldo_cliente',
+          operation: 'consultar_saldo',
+          duration
+        });
       }
 
       const saldoDetalle = result.data;
       
       if (!saldoDetalle) {
         Logger.error('Consultar saldo falló', new Error('No saldo data returned'));
-        return `❌ Error: No se pudo obtener información de saldo para el servicio ${validatedArgs.servicio}`;
+        return ErrorHandler.toToolError(ErrorHandler.createEmptyResponseError('consultar_saldo'));
       }
       
       Logger.info('Consultar saldo completado', {
         tool: 'consultar_saldo_cliente',
-        servicio: validatedArgs.servicio,
+        id_servicio: validatedArgs.id_servicio,
         duration_ms: duration,
         saldo: saldoDetalle.saldo_actual_numerico,
         estado: saldoDetalle.estado_cuenta
       });
 
       // Format response for MCP client with debug info
-      return formatSaldoDetailResponse(saldoDetalle, validatedArgs.servicio, result.debugInfo);
+      return {
+        text: formatSaldoDetailResponse(saldoDetalle, validatedArgs.id_servicio, result.debugInfo),
+        structuredContent: { cuenta, ...saldoDetalle }
+      };
 
     } catch (error) {
       const duration = timer();
-      Logger.error('Consultar saldo error', error, {
+      return ErrorHandler.handleError(error, {
         tool: 'consultar_saldo_cliente',
-        duration_ms: duration
+        operation: 'consultar_saldo',
+        duration
       });
-
-      if (error instanceof z.ZodError) {
-        const issues = error.issues.map(issue => 
-          `${issue.path.join('.')}: ${issue.message}`
-        ).join(', ');
-        return `❌ Error de validación: ${issues}`;
-      }
-
-      return `❌ Error inesperado: ${error instanceof Error ? error.message : String(error)}`;
     }
   }
-};
+});
 
 /**
  * Format response for MCP client consumption
@@ -3,20 +3,17 @@
  * Get detailed information for a specific client
  */
 
-import { z } from 'zod';
-import { ClienteService } from '../../services/cliente.service.js';
-import { ObtenerClienteInputSchema } from '../../validators/schemas.js';
+import { ObtenerClienteInputSchema, ObtenerClienteOutputSchema } from '../../validators/schemas.js';
 import { Logger } from '../../utils/logger.js';
+import { defineTool } from '../tool-definition.js';
+import type { ToolContext, ToolHandlerResult } from '../tool-definition.js';
 import { ErrorHandler } from '../../utils/error-handler.js';
 import type { ObtenerClienteInput } from '../../types/wisphub.types.js';
 
-// Service instance
-const clienteService = new ClienteService();
-
 /**
  * Tool definition for MCP
  */
-export const obtenerClienteTool = {
+export const obtenerClienteTool = defineTool({
   name: 'obtener_cliente',
   description: `Obtiene información detallada de un cliente específico por ID o email.
 
@@ -35,29 +32,23 @@ Casos de uso típicos:
 
 La información mostrada es más completa que en la lista general de clientes.`,
 
-  inputSchema: {
-    type: 'object',
-    properties: {
-      clienteId: {
-        type: 'string',
-        minLength: 1,
-        description: 'ID del cliente, email, o número de servicio'
-      }
-    },
-    required: ['clienteId'],
-    additionalProperties: false,
-    description: 'Identificador del cliente a consultar'
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true
   },
 
+  argsSchema: ObtenerClienteInputSchema,
+  resultSchema: ObtenerClienteOutputSchema,
+
   /**
    * Tool handler
    */
-  async handler(args: unknown): Promise<string> {
+  async handler(validatedArgs, { services, signal }: ToolContext): Promise<ToolHandlerResult<typeof ObtenerClienteOutputSchema>> {
     const timer = Logger.startTimer();
     
     try {
-      // Validate input
-      const validatedArgs = ObtenerClienteInputSchema.parse(args);
+      const { cuenta, clientes: clienteService } = services(validatedArgs.cuenta);
       
       Logger.info('Obtener cliente iniciado', {
         tool: 'obtener_cliente',
@@ -65,13 +56,16 @@ La información mostrada es más completa que en la lista general de clientes.`,
       });
 
       // Call service
-      const result = await clienteService.obtenerCliente(validatedArgs.clienteId);
+      const result = await clienteService.obtenerCliente(validatedArgs.clienteId, signal);
       
       const duration = timer();
 
       if (!result.success) {
-        Logger.error('Obtener cliente falló', new Error(result.error || 'Unknown error'));
-        return `❌ Error: ${result.error}`;
+        return ErrorHandler.handleError(new Error(result.error || 'Unknown error'), {
+          tool: 'obtener_cliente',
+          operation: 'buscar_cliente',
+          duration
+        });
       }
 
       const cliente = result.data;
@@ -82,12 +76,15 @@ La información mostrada es más completa que en la lista general de clientes.`,
           clienteId: validatedArgs.clienteId,
           duration_ms: duration
         });
-        return `🔍 Cliente no encontrado: "${validatedArgs.clienteId}"
+        return {
+          text: `🔍 Cliente no encontrado: "${validatedArgs.clienteId}"
 
 💡 **Sugerencias:**
 - Verifica que el ID del cliente sea correcto
 - Prueba buscar por email completo
-- Usa \`consultar_clientes\` para listar clientes disponibles`;
+- Usa \`consultar_clientes\` para listar clientes disponibles`,
+          structuredContent: { cuenta, encontrado: false }
+        };
       }
       
       Logger.info('Obtener cliente completado', {
@@ -98,7 +95,10 @@ La información mostrada es más completa que en la lista general de clientes.`,
       });
 
       // Format response for MCP client with debug info
-      return formatClienteDetailResponse(cliente, result.debugInfo);
+      return {
+        text: formatClienteDetailResponse(cliente, result.debugInfo),
+        structuredContent: { cuenta, encontrado: true, cliente }
+      };
 
     } catch (error) {
       const duration = timer();
@@ -109,7 +109,7 @@ La información mostrada es más completa que en la lista general de clientes.`,
       });
     }
   }
-};
+});
 
 /**
  * Format response for MCP client consumption
@@ -204,8 +204,8 @@ function formatClienteDetailResponse(cliente: any, debugInfo?: any): string {
 
   // Quick actions
   response.push(`### 🛠️ Acciones Disponibles`);
-  response.push(`- \`consultar_saldo_cliente clienteId:"${cliente.id_servicio}"\` - Ver detalles financieros`);
-  response.push(`- \`obtener_tickets_cliente clienteId:"${cliente.id_servicio}"\` - Ver historial de tickets`);
+  response.push(`- \`consultar_saldo_cliente id_servicio:${cliente.id_servicio}\` - Ver detalles financieros`);
+  response.push(`- \`obtener_tickets_cliente servicio:${cliente.id_servicio}\` - Ver historial de tickets`);
   response.push(`- \`crear_ticket\` - Crear nuevo ticket para este cliente`);
   
   if (cliente.estado === 'activo') {
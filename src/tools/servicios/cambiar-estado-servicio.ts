@@ -3,19 +3,17 @@
  * Suspend or reactivate client services
  */
 
-import { z } from 'zod';
-import { ClienteService } from '../../services/cliente.service.js';
-import { CambiarEstadoServicioInputSchema } from '../../validators/schemas.js';
+import { CambiarEstadoServicioInputSchema, CambiarEstadoServicioOutputSchema } from '../../validators/schemas.js';
 import { Logger } from '../../utils/logger.js';
+import { ErrorHandler } from '../../utils/error-handler.js';
+import { defineTool } from '../tool-definition.js';
+import type { ToolContext, ToolHandlerResult } from '../tool-definition.js';
 import type { CambiarEstadoServicioInput } from '../../types/wisphub.types.js';
 
-// Service instance
-const clienteService = new ClienteService();
-
 /**
  * Tool definition for MCP
  */
-export const cambiarEstadoServicioTool = {
+export const cambiarEstadoServicioTool = defineTool({
   name: 'cambiar_estado_servicio',
   description: `Gestiona cambios de estado de servicios con transparencia total sobre limitaciones de API.
 
@@ -34,39 +32,23 @@ Casos de uso recomendados:
 
 **Workflow recomendado**: Esta herramienta + cambio manual en panel admin.`,
 
-  inputSchema: {
-    type: 'object',
-    properties: {
-      id_servicio: {
-        type: 'number',
-        minimum: 1,
-        description: 'ID del servicio del cliente a modificar'
-      },
-      nuevo_estado: {
-        type: 'string',
-        enum: ['activo', 'suspendido', 'cancelado'],
-        description: 'Nuevo estado del servicio'
-      },
-      motivo: {
-        type: 'string',
-        minLength: 1,
-        description: 'Motivo obligatorio del cambio de estado'
-      }
-    },
-    required: ['id_servicio', 'nuevo_estado', 'motivo'],
-    additionalProperties: false,
-    description: 'Parámetros para cambiar el estado de un servicio'
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true
   },
 
+  argsSchema: CambiarEstadoServicioInputSchema,
+  resultSchema: CambiarEstadoServicioOutputSchema,
+
   /**
    * Tool handler
    */
-  async handler(args: unknown): Promise<string> {
+  async handler(validatedArgs, { services, signal }: ToolContext): Promise<ToolHandlerResult<typeof CambiarEstadoServicioOutputSchema>> {
     const timer = Logger.startTimer();
     
     try {
-      // Validate input
-      const validatedArgs = CambiarEstadoServicioInputSchema.parse(args);
+      const { cuenta, clientes: clienteService } = services(validatedArgs.cuenta);
       
       Logger.info('Cambiar estado servicio iniciado', {
         tool: 'cambiar_estado_servicio',
@@ -76,10 +58,17 @@ Casos de uso recomendados:
       });
 
       // Get current client state first
-      const clienteResult = await clienteService.obtenerCliente(validatedArgs.id_servicio.toString());
+      const clienteResult = await clienteService.obtenerCliente(validatedArgs.id_servicio.toString(), signal);
       
-      if (!clienteResult.success || !clienteResult.data) {
-        return `❌ Error: Cliente con ID ${validatedArgs.id_servicio} no encontrado`;
+      if (!clienteResult.success) {
+        return ErrorHandler.handleError(new Error(clienteResult.error || 'Unknown error'), {
+          tool: 'cambiar_estado_servicio',
+          operation: 'obtener_cliente_actual'
+        });
+      }
+
+      if (!clienteResult.data) {
+        return ErrorHandler.toToolError(ErrorHandler.createNotFoundError('cliente', validatedArgs.id_servicio));
       }
 
       const cliente = clienteResult.data;
@@ -87,7 +76,17 @@ Casos de uso recomendados:
 
       // Check if change is necessary
       if (estadoActual === validatedArgs.nuevo_estado) {
-        return `⚠️ El servicio ID ${validatedArgs.id_servicio} ya está en estado "${validatedArgs.nuevo_estado}"`;
+        return {
+          text: `⚠️ El servicio ID ${validatedArgs.id_servicio} ya está en estado "${validatedArgs.nuevo_estado}"`,
+          structuredContent: {
+            cuenta,
+            id_servicio: validatedArgs.id_servicio,
+            estado_anterior: estadoActual,
+            estado_solicitado: validatedArgs.nuevo_estado,
+            motivo: validatedArgs.motivo,
+            cambio_enviado: false
+          }
+        };
       }
 
       // Proactive warning about API limitation (like in actualizar_cliente)
@@ -100,25 +99,28 @@ Casos de uso recomendados:
         result = await clienteService.activarServicio({
           id_servicio: validatedArgs.id_servicio,
           motivo: validatedArgs.motivo
-        });
+        }, signal);
       } else if (validatedArgs.nuevo_estado === 'suspendido') {
         result = await clienteService.desactivarServicio({
           id_servicio: validatedArgs.id_servicio,
           motivo: validatedArgs.motivo
-        });
+        }, signal);
       } else {
         // For 'cancelado', use the dedicated cancelarServicio method
         result = await clienteService.cancelarServicio({
           id_servicio: validatedArgs.id_servicio,
           motivo: validatedArgs.motivo
-        });
+        }, signal);
       }
       
       const duration = timer();
 
       if (!result.success) {
-        Logger.error('Cambiar estado servicio falló', new Error(result.error || 'Unknown error'));
-        return `❌ Error: ${result.error}`;
+        return ErrorHandler.handleError(new Error(result.error || 'Unknown error'), {
+          tool: 'cambiar_estado_servicio',
+          operation: 'cambiar_estado',
+          duration
+        });
       }
       
       Logger.info('Cambiar estado servicio completado', {
@@ -131,32 +133,35 @@ Casos de uso recomendados:
       });
 
       // Format response for MCP client with debug info and limitation warning
-      return limitationWarning + formatEstadoChangeResponse(
-        cliente, 
-        estadoActual, 
-        validatedArgs.nuevo_estado, 
-        validatedArgs.motivo,
-        result.debugInfo
-      );
+      return {
+        text: limitationWarning + formatEstadoChangeResponse(
+          cliente, 
+          estadoActual, 
+          validatedArgs.nuevo_estado, 
+          validatedArgs.motivo,
+          result.debugInfo
+        ),
+        structuredContent: {
+          cuenta,
+          id_servicio: validatedArgs.id_servicio,
+          estado_anterior: estadoActual,
+          estado_solicitado: validatedArgs.nuevo_estado,
+          motivo: validatedArgs.motivo,
+          cambio_enviado: true,
+          estado_verificado: result.debugInfo?.verifiedCliente?.estado
+        }
+      };
 
     } catch (error) {
       const duration = timer();
-      Logger.error('Cambiar estado servicio error', error, {
+      return ErrorHandler.handleError(error, {
         tool: 'cambiar_estado_servicio',
-        duration_ms: duration
+        operation: 'cambiar_estado',
+        duration
       });
-
-      if (error instanceof z.ZodError) {
-        const issues = error.issues.map(issue => 
-          `${issue.path.join('.')}: ${issue.message}`
-        ).join(', ');
-        return `❌ Error de validación: ${issues}`;
-      }
-
-      return `❌ Error inesperado: ${error instanceof Error ? error.message : String(error)}`;
     }
   }
-};
+});
 
 /**
  * Format response for MCP client consumption
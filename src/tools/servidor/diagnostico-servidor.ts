@@ -0,0 +1,215 @@
+/**
+ * Diagnostico Servidor MCP Tool
+ * Health check: API reachability, configuration, cache and error stats
+ */
+
+import { DiagnosticoServidorInputSchema, DiagnosticoServidorOutputSchema } from '../../validators/schemas.js';
+import { Logger } from '../../utils/logger.js';
+import { ErrorHandler } from '../../utils/error-handler.js';
+import { defineTool } from '../tool-definition.js';
+import type { ToolContext, ToolHandlerResult } from '../tool-definition.js';
+import type { DiagnosticoServidor } from '../../types/wisphub.types.js';
+
+/**
+ * Tool definition for MCP
+ */
+export const diagnosticoServidorTool = defineTool({
+  name: 'diagnostico_servidor',
+  description: `Diagnóstico del servidor MCP y de la conexión con WispHub.
+
+Esta herramienta reporta en una sola llamada:
+- Conectividad con la API de WispHub (sonda ligera, sin caché ni reintentos)
+- Estado del circuit breaker (si las llamadas están fallando rápido)
+- URL base configurada, modo y perfil de operador
+- Tasa de aciertos, tamaño y desalojos de la caché de la cuenta
+- Errores recientes agrupados por código
+- Cambios detectados en las respuestas de la API (campos inesperados, faltantes o inválidos)
+- Tiempo en ejecución del servidor
+
+Casos de uso típicos:
+- "¿Está caído WispHub o expiró nuestra API key?"
+- "¿Por qué fallan las consultas de clientes?"
+
+No modifica datos.`,
+
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true
+  },
+
+  argsSchema: DiagnosticoServidorInputSchema,
+  resultSchema: DiagnosticoServidorOutputSchema,
+
+  /**
+   * Tool handler
+   */
+  async handler(validatedArgs, { services, signal }: ToolContext): Promise<ToolHandlerResult<typeof DiagnosticoServidorOutputSchema>> {
+    const timer = Logger.startTimer();
+
+    try {
+      const { cuenta, diagnostico: diagnosticoService } = services(validatedArgs.cuenta);
+
+      const result = await diagnosticoService.obtenerDiagnostico(signal);
+
+      const duration = timer();
+
+      if (!result.success || !result.data) {
+        return ErrorHandler.handleError(new Error(result.error || 'Unknown error'), {
+          tool: 'diagnostico_servidor',
+          operation: 'diagnostico',
+          duration
+        });
+      }
+
+      Logger.info('Diagnostico servidor completado', {
+        tool: 'diagnostico_servidor',
+        duration_ms: duration,
+        api_estado: result.data.api.estado
+      });
+
+      return {
+        text: formatDiagnosticoResponse(result.data),
+        structuredContent: { cuenta, ...result.data }
+      };
+
+    } catch (error) {
+      const duration = timer();
+      return ErrorHandler.handleError(error, {
+        tool: 'diagnostico_servidor',
+        operation: 'diagnostico',
+        duration
+      });
+    }
+  }
+});
+
+/**
+ * Format response for MCP client consumption
+ */
+function formatDiagnosticoResponse(diagnostico: DiagnosticoServidor): string {
+  const { api } = diagnostico;
+
+  const response = [
+    `🩺 **Diagnóstico del Servidor**`,
+    ``,
+    `### 🌐 API WispHub`,
+    `- **Estado:** ${getApiStatusIcon(api.estado)} ${getApiStatusLabel(api.estado)}`,
+    `- **URL base:** ${diagnostico.base_url}`,
+    `- **HTTP:** ${api.status ?? 'sin respuesta'} (${api.latency_ms} ms)`
+  ];
+
+  if (api.error) {
+    response.push(`- **Error:** ${api.error}`);
+  }
+
+  const { circuito } = diagnostico;
+  response.push(`- **Circuito:** ${getCircuitLabel(circuito.estado)} (${circuito.fallos_consecutivos} fallos consecutivos)`);
+  if (circuito.reintento_en_s !== undefined) {
+    response.push(`- **Próximo intento en:** ${circuito.reintento_en_s} s`);
+  }
+
+  response.push(
+    ``,
+    `### ⚙️ Servidor`,
+    `- **Modo:** ${diagnostico.modo}`,
+    `- **Perfil:** ${diagnostico.perfil || 'sin restricciones'}`,
+    `- **Cuentas:** ${diagnostico.cuentas.join(', ')}`,
+    `- **En ejecución:** ${formatUptime(diagnostico.uptime_s)}`,
+    ``,
+    `### 💾 Caché`
+  );
+
+  const { cache } = diagnostico;
+  response.push(
+    `- **Aciertos:** ${(cache.hitRate * 100).toFixed(1)}% (${cache.hits}/${cache.hits + cache.misses})`,
+    `- **Tamaño:** ${cache.size} entradas (~${formatBytes(cache.bytes)}), ${cache.evictions} desalojadas`
+  );
+
+  response.push(``, `### ⚠️ Errores (últimos ${diagnostico.ventana_errores_min} min)`);
+
+  const errores = Object.entries(diagnostico.errores);
+  if (errores.length === 0) {
+    response.push(`- Sin errores registrados`);
+  } else {
+    errores.forEach(([code, count]) => response.push(`- **${code}:** ${count}`));
+  }
+
+  response.push(``, `### 🧬 Cambios en la API`);
+
+  const deriva = Object.entries(diagnostico.deriva_api)
+    .filter(([, d]) => d.inesperados.length || d.faltantes.length || d.invalidos.length);
+  if (deriva.length === 0) {
+    response.push(`- Sin diferencias respecto al formato esperado`);
+  } else {
+    for (const [endpoint, d] of deriva) {
+      response.push(`- **${endpoint}** (${d.muestras} respuestas)`);
+      if (d.faltantes.length) response.push(`  - Faltantes: ${d.faltantes.join(', ')}`);
+      if (d.invalidos.length) response.push(`  - Inválidos: ${d.invalidos.join(', ')}`);
+      if (d.inesperados.length) response.push(`  - Inesperados: ${d.inesperados.join(', ')}`);
+    }
+  }
+
+  response.push(``, `### 🧭 Endpoints detectados`);
+
+  if (!diagnostico.capacidades) {
+    response.push(`- ⏳ Sondeo de endpoints en curso, consulta de nuevo en unos segundos`);
+  }
+
+  for (const [endpoint, capacidad] of Object.entries(diagnostico.capacidades?.endpoints ?? {})) {
+    const metodos = [
+      capacidad.metodos_lista.length ? `lista ${capacidad.metodos_lista.join(', ')}` : '',
+      capacidad.metodos_detalle.length ? `detalle ${capacidad.metodos_detalle.join(', ')}` : ''
+    ].filter(Boolean).join(' · ');
+    response.push(`- ${getEndpointIcon(capacidad.estado)} **${endpoint}**${metodos ? `: ${metodos}` : ''}`);
+  }
+
+  return response.join('\n');
+}
+
+/**
+ * Helper functions
+ */
+function getApiStatusIcon(estado: string): string {
+  if (estado === 'ok') return '✅';
+  if (estado === 'unreachable' || estado === 'server_error') return '🔴';
+  return '⚠️';
+}
+
+function getApiStatusLabel(estado: string): string {
+  const labels: Record<string, string> = {
+    ok: 'Disponible',
+    auth_error: 'API key rechazada (revisar WISPHUB_API_KEY)',
+    rate_limited: 'Límite de solicitudes alcanzado',
+    server_error: 'WispHub responde con error interno',
+    client_error: 'Respuesta inesperada de la API',
+    unreachable: 'WispHub no responde'
+  };
+  return labels[estado] || estado;
+}
+
+function getCircuitLabel(estado: string): string {
+  const labels: Record<string, string> = {
+    closed: '✅ Cerrado (llamadas normales)',
+    open: '🔴 Abierto (las llamadas fallan de inmediato)',
+    half_open: '⚠️ Semiabierto (probando recuperación)'
+  };
+  return labels[estado] || estado;
+}
+
+function getEndpointIcon(estado: string): string {
+  if (estado === 'disponible') return '✅';
+  if (estado === 'no_disponible') return '➖';
+  return '❓';
+}
+
+function formatUptime(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours > 0 ? `${hours} h ${minutes} min` : `${minutes} min ${seconds % 60} s`;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / 1024).toFixed(1)} KB`;
+}
@@ -3,25 +3,23 @@
  * Update ticket status, priority, technician, and add notes
  */
 
-import { z } from 'zod';
-import { TicketService } from '../../services/ticket.service.js';
-import { ActualizarTicketInputSchema } from '../../validators/schemas.js';
+import { ActualizarTicketInputSchema, ActualizarTicketOutputSchema } from '../../validators/schemas.js';
 import { Logger } from '../../utils/logger.js';
+import { ErrorHandler } from '../../utils/error-handler.js';
+import { defineTool } from '../tool-definition.js';
+import type { ToolContext, ToolHandlerResult } from '../tool-definition.js';
 import type { ActualizarTicketInput } from '../../types/wisphub.types.js';
 
-// Service instance
-const ticketService = new TicketService();
-
 /**
  * Tool definition for MCP
  */
-export const actualizarTicketTool = {
+export const actualizarTicketTool = defineTool({
   name: 'actualizar_ticket',
   description: `Actualiza el estado, prioridad o información de un ticket existente.
 
 Esta herramienta permite gestionar el ciclo de vida completo de tickets:
 - Cambiar estado (abierto → en_proceso → cerrado)
-- Modificar prioridad (baja, media, alta, critica)
+- Modificar prioridad (baja, normal, alta, muy_alta)
 - Reasignar técnico responsable
 - Agregar notas de seguimiento
 
@@ -33,54 +31,32 @@ Casos de uso típicos:
 
 Importante: Al menos uno de los campos opcionales debe ser proporcionado.`,
 
-  inputSchema: {
-    type: 'object',
-    properties: {
-      ticketId: {
-        type: 'number',
-        minimum: 1,
-        description: 'ID del ticket a actualizar'
-      },
-      estado: {
-        type: 'string',
-        enum: ['nuevo', 'en_progreso', 'resuelto', 'cerrado'],
-        description: 'Nuevo estado del ticket (nuevo, en_progreso, resuelto, cerrado)'
-      },
-      prioridad: {
-        type: 'string',
-        enum: ['baja', 'normal', 'alta', 'muy_alta'],
-        description: 'Nueva prioridad del ticket (baja, normal, alta, muy_alta)'
-      },
-      tecnico: {
-        type: 'string',
-        description: 'ID del técnico asignado (ej: 3288010 para admin@almacreativa)'
-      },
-      notas: {
-        type: 'string',
-        description: 'Notas adicionales sobre la actualización o seguimiento'
-      }
-    },
-    required: ['ticketId'],
-    additionalProperties: false,
-    description: 'Parámetros para actualizar un ticket existente. Al menos un campo opcional debe ser proporcionado.'
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: false
   },
 
+  argsSchema: ActualizarTicketInputSchema,
+  resultSchema: ActualizarTicketOutputSchema,
+
   /**
    * Tool handler
    */
-  async handler(args: unknown): Promise<string> {
+  async handler(validatedArgs, { services, signal }: ToolContext): Promise<ToolHandlerResult<typeof ActualizarTicketOutputSchema>> {
     const timer = Logger.startTimer();
     
     try {
-      // Validate input
-      const validatedArgs = ActualizarTicketInputSchema.parse(args);
+      const { cuenta, tickets: ticketService } = services(validatedArgs.cuenta);
       
       // Check that at least one update field is provided
       const hasUpdates = validatedArgs.estado || validatedArgs.prioridad || 
                         validatedArgs.tecnico || validatedArgs.notas;
       
       if (!hasUpdates) {
-        return `❌ Error: Debe proporcionar al menos un campo para actualizar (estado, prioridad, tecnico, o notas)`;
+        return ErrorHandler.toToolError(ErrorHandler.createValidationError(
+          'Debe proporcionar al menos un campo para actualizar (estado, prioridad, tecnico, o notas)'
+        ));
       }
       
       Logger.info('Actualizar ticket iniciado', {
@@ -102,16 +78,24 @@ Importante: Al menos uno de los campos opcionales debe ser proporcionado.`,
       if (validatedArgs.notas) updates.notas = validatedArgs.notas;
 
       // Call service
-      const result = await ticketService.actualizarTicket(validatedArgs.ticketId, updates);
+      const result = await ticketService.actualizarTicket(validatedArgs.ticketId, updates, signal);
       
       const duration = timer();
 
       if (!result.success) {
-        Logger.error('Actualizar ticket falló', new Error(result.error || 'Unknown error'));
-        return `❌ Error: ${result.error}`;
+        return ErrorHandler.handleError(new Error(result.error || 'Unknown error'), {
+          tool: 'actualizar_ticket',
+          operation: 'actualizar_ticket',
+          duration
+        });
       }
 
       const ticket = result.data;
+
+      if (!ticket) {
+        Logger.error('Actualizar ticket falló', new Error('No ticket data returned'));
+        return ErrorHandler.toToolError(ErrorHandler.createEmptyResponseError('actualizar_ticket'));
+      }
       
       Logger.info('Actualizar ticket completado', {
         tool: 'actualizar_ticket',
@@ -121,26 +105,25 @@ Importante: Al menos uno de los campos opcionales debe ser proporcionado.`,
       });
 
       // Format response for MCP client with debugging info
-      return formatTicketUpdateResponse(ticket, validatedArgs, result.debugInfo);
+      return {
+        text: formatTicketUpdateResponse(ticket, validatedArgs, result.debugInfo),
+        structuredContent: {
+          cuenta,
+          ticket,
+          verificado: !!result.debugInfo?.verifiedTicket
+        }
+      };
 
     } catch (error) {
       const duration = timer();
-      Logger.error('Actualizar ticket error', error, {
+      return ErrorHandler.handleError(error, {
         tool: 'actualizar_ticket',
-        duration_ms: duration
+        operation: 'actualizar_ticket',
+        duration
       });
-
-      if (error instanceof z.ZodError) {
-        const issues = error.issues.map(issue => 
-          `${issue.path.join('.')}: ${issue.message}`
-        ).join(', ');
-        return `❌ Error de validación: ${issues}`;
-      }
-
-      return `❌ Error inesperado: ${error instanceof Error ? error.message : String(error)}`;
     }
   }
-};
+});
 
 /**
  * Format response for MCP client consumption
@@ -150,7 +133,7 @@ function formatTicketUpdateResponse(ticket: any, updates: ActualizarTicketInput,
   const ticketId = ticket?.id || updates.ticketId || 'Desconocido';
   const asunto = ticket?.asunto || 'No disponible';
   const estado = ticket?.estado || 'desconocido';
-  const prioridad = ticket?.prioridad || 'media';
+  const prioridad = ticket?.prioridad || 'normal';
   const tecnico = ticket?.tecnico || 'No asignado';
   const servicio = ticket?.servicio || updates.ticketId || 'Desconocido';
   
@@ -3,19 +3,17 @@
  * Create support tickets for customer issues
  */
 
-import { z } from 'zod';
-import { TicketService } from '../../services/ticket.service.js';
-import { CrearTicketInputSchema } from '../../validators/schemas.js';
+import { CrearTicketInputSchema, CrearTicketOutputSchema } from '../../validators/schemas.js';
 import { Logger } from '../../utils/logger.js';
+import { ErrorHandler } from '../../utils/error-handler.js';
+import { defineTool } from '../tool-definition.js';
+import type { ToolContext, ToolHandlerResult } from '../tool-definition.js';
 import type { CrearTicketInput } from '../../types/wisphub.types.js';
 
-// Service instance
-const ticketService = new TicketService();
-
 /**
  * Tool definition for MCP
  */
-export const crearTicketTool = {
+export const crearTicketTool = defineTool({
   name: 'crear_ticket',
   description: `Crea un nuevo ticket de soporte para un cliente.
 
@@ -23,7 +21,7 @@ Esta herramienta permite crear tickets de soporte técnico con toda la informaci
 - Asociado a un cliente específico por ID de servicio
 - Asunto descriptivo del problema
 - Descripción detallada de la incidencia
-- Prioridad configurable (baja, media, alta, crítica)
+- Prioridad configurable (baja, normal, alta, muy_alta)
 - Se asigna automáticamente según las reglas de negocio
 
 Casos de uso típicos:
@@ -33,46 +31,23 @@ Casos de uso típicos:
 
 El ticket se crea inmediatamente y queda disponible para seguimiento por parte del equipo técnico.`,
 
-  inputSchema: {
-    type: 'object',
-    properties: {
-      servicio: {
-        type: 'number',
-        minimum: 1,
-        description: 'ID del servicio del cliente'
-      },
-      asunto: {
-        type: 'string',
-        minLength: 1,
-        maxLength: 255,
-        description: 'Asunto o título del ticket (máximo 255 caracteres)'
-      },
-      descripcion: {
-        type: 'string',
-        minLength: 1,
-        description: 'Descripción detallada del problema o solicitud'
-      },
-      prioridad: {
-        type: 'string',
-        enum: ['baja', 'media', 'alta', 'critica'],
-        default: 'media',
-        description: 'Prioridad del ticket (por defecto: media)'
-      }
-    },
-    required: ['servicio', 'asunto', 'descripcion'],
-    additionalProperties: false,
-    description: 'Datos necesarios para crear un nuevo ticket de soporte'
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false
   },
 
+  argsSchema: CrearTicketInputSchema,
+  resultSchema: CrearTicketOutputSchema,
+
   /**
    * Tool handler
    */
-  async handler(args: unknown): Promise<string> {
+  async handler(validatedArgs, { services, signal }: ToolContext): Promise<ToolHandlerResult<typeof CrearTicketOutputSchema>> {
     const timer = Logger.startTimer();
     
     try {
-      // Validate input
-      const validatedArgs = CrearTicketInputSchema.parse(args);
+      const { cuenta, tickets: ticketService } = services(validatedArgs.cuenta);
       
       Logger.info('Crear ticket iniciado', {
         tool: 'crear_ticket',
@@ -82,20 +57,23 @@ El ticket se crea inmediatamente y queda disponible para seguimiento por parte d
       });
 
       // Call service
-      const result = await ticketService.crearTicket(validatedArgs);
+      const result = await ticketService.crearTicket(validatedArgs, signal);
       
       const duration = timer();
 
       if (!result.success) {
-        Logger.error('Crear ticket falló', new Error(result.error || 'Unknown error'));
-        return `❌ Error: ${result.error}`;
+        return ErrorHandler.handleError(new Error(result.error || 'Unknown error'), {
+          tool: 'crear_ticket',
+          operation: 'crear_ticket',
+          duration
+        });
       }
 
       const ticket = result.data;
       
       if (!ticket) {
         Logger.error('Crear ticket falló', new Error('No ticket data returned'));
-        return `❌ Error: No se pudo crear el ticket`;
+        return ErrorHandler.toToolError(ErrorHandler.createEmptyResponseError('crear_ticket'));
       }
       
       Logger.info('Crear ticket completado', {
@@ -106,26 +84,21 @@ El ticket se crea inmediatamente y queda disponible para seguimiento por parte d
       });
 
       // Format response for MCP client
-      return formatTicketCreatedResponse(ticket, validatedArgs);
+      return {
+        text: formatTicketCreatedResponse(ticket, validatedArgs),
+        structuredContent: { cuenta, ticket }
+      };
 
     } catch (error) {
       const duration = timer();
-      Logger.error('Crear ticket error', error, {
+      return ErrorHandler.handleError(error, {
         tool: 'crear_ticket',
-        duration_ms: duration
+        operation: 'crear_ticket',
+        duration
       });
-
-      if (error instanceof z.ZodError) {
-        const issues = error.issues.map(issue => 
-          `${issue.path.join('.')}: ${issue.message}`
-        ).join(', ');
-        return `❌ Error de validación: ${issues}`;
-      }
-
-      return `❌ Error inesperado: ${error instanceof Error ? error.message : String(error)}`;
     }
   }
-};
+});
 
 /**
  * Format response for MCP client consumption
@@ -167,7 +140,7 @@ function formatTicketCreatedResponse(ticket: any, input: CrearTicketInput): stri
   // Próximos pasos según prioridad
   response.push(`### 🚀 Próximos Pasos`);
   switch (ticket.prioridad) {
-    case 'critica':
+    case 'muy_alta':
       response.push(`- ⚡ **Atención inmediata:** El técnico será notificado de urgencia`);
       response.push(`- 📞 Se contactará al cliente en los próximos 15 minutos`);
       break;
@@ -175,7 +148,7 @@ function formatTicketCreatedResponse(ticket: any, input: CrearTicketInput): stri
       response.push(`- 🔴 **Atención prioritaria:** Respuesta en 1-2 horas`);
       response.push(`- 📧 Cliente será contactado por email`);
       break;
-    case 'media':
+    case 'normal':
       response.push(`- 🟡 **Atención normal:** Respuesta en 4-8 horas laborales`);
       response.push(`- 📧 Cliente recibirá actualizaciones por email`);
       break;
@@ -207,9 +180,9 @@ function formatTicketCreatedResponse(ticket: any, input: CrearTicketInput): stri
 function getPrioridadIcon(prioridad: string): string {
   const icons = {
     'baja': '🟢',
-    'media': '🟡',
+    'normal': '🟡',
     'alta': '🔴',
-    'critica': '⚡'
+    'muy_alta': '⚡'
   };
   return icons[prioridad as keyof typeof icons] || '❓';
 }
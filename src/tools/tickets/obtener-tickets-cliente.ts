@@ -3,18 +3,16 @@
  * Get all tickets for a specific client
  */
 
-import { z } from 'zod';
-import { TicketService } from '../../services/ticket.service.js';
-import { ConsultarSaldoInputSchema } from '../../validators/schemas.js'; // Reuse schema with id_servicio
+import { ObtenerTicketsClienteInputSchema, ObtenerTicketsClienteOutputSchema } from '../../validators/schemas.js';
 import { Logger } from '../../utils/logger.js';
-
-// Service instance
-const ticketService = new TicketService();
+import { ErrorHandler } from '../../utils/error-handler.js';
+import { defineTool } from '../tool-definition.js';
+import type { ToolContext, ToolHandlerResult } from '../tool-definition.js';
 
 /**
  * Tool definition for MCP
  */
-export const obtenerTicketsClienteTool = {
+export const obtenerTicketsClienteTool = defineTool({
   name: 'obtener_tickets_cliente',
   description: `Obtiene el historial completo de tickets de soporte de un cliente específico.
 
@@ -24,6 +22,7 @@ Esta herramienta muestra todos los tickets asociados a un cliente:
 - Fechas de creación y cierre
 - Técnico asignado
 - Historial cronológico ordenado
+- \`todos: true\` recorre todas las páginas del historial
 
 Casos de uso típicos:
 - "Ver todos los tickets del cliente 12345"
@@ -32,49 +31,45 @@ Casos de uso típicos:
 
 Útil para entender el historial de problemas y dar seguimiento personalizado.`,
 
-  inputSchema: {
-    type: 'object',
-    properties: {
-      servicio: {
-        type: 'number',
-        minimum: 1,
-        description: 'ID del servicio del cliente'
-      }
-    },
-    required: ['servicio'],
-    additionalProperties: false,
-    description: 'ID del servicio para consultar tickets'
+  annotations: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true
   },
 
+  argsSchema: ObtenerTicketsClienteInputSchema,
+  resultSchema: ObtenerTicketsClienteOutputSchema,
+
   /**
    * Tool handler
    */
-  async handler(args: unknown): Promise<string> {
+  async handler(validatedArgs, { services, signal }: ToolContext): Promise<ToolHandlerResult<typeof ObtenerTicketsClienteOutputSchema>> {
     const timer = Logger.startTimer();
     
     try {
-      // Validate input using existing schema (reusing ConsultarSaldoInputSchema structure)
-      const schema = z.object({
-        servicio: z.number().positive().describe('ID del servicio del cliente')
-      });
-      const validatedArgs = schema.parse(args);
+      const { cuenta, tickets: ticketService } = services(validatedArgs.cuenta);
       
       Logger.info('Obtener tickets cliente iniciado', {
         tool: 'obtener_tickets_cliente',
-        servicio: validatedArgs.servicio
+        servicio: validatedArgs.servicio,
+        todos: validatedArgs.todos
       });
 
       // Call service
-      const result = await ticketService.obtenerTicketsCliente(validatedArgs.servicio);
+      const result = await ticketService.obtenerTicketsCliente(validatedArgs.servicio, validatedArgs.todos, signal);
       
       const duration = timer();
 
       if (!result.success) {
-        Logger.error('Obtener tickets cliente falló', new Error(result.error || 'Unknown error'));
-        return `❌ Error: ${result.error}`;
+        return ErrorHandler.handleError(new Error(result.error || 'Unknown error'), {
+          tool: 'obtener_tickets_cliente',
+          operation: 'obtener_tickets',
+          duration
+        });
       }
 
       const tickets = result.data || [];
+      const truncado = result.truncado ?? false;
       
       Logger.info('Obtener tickets cliente completado', {
         tool: 'obtener_tickets_cliente',
@@ -84,31 +79,32 @@ Casos de uso típicos:
       });
 
       // Format response for MCP client
-      return formatTicketsHistoryResponse(tickets, validatedArgs.servicio);
+      return {
+        text: formatTicketsHistoryResponse(tickets, validatedArgs.servicio, truncado),
+        structuredContent: {
+          cuenta,
+          servicio: validatedArgs.servicio,
+          total: tickets.length,
+          tickets,
+          truncado
+        }
+      };
 
     } catch (error) {
       const duration = timer();
-      Logger.error('Obtener tickets cliente error', error, {
+      return ErrorHandler.handleError(error, {
         tool: 'obtener_tickets_cliente',
-        duration_ms: duration
+        operation: 'obtener_tickets',
+        duration
       });
-
-      if (error instanceof z.ZodError) {
-        const issues = error.issues.map(issue => 
-          `${issue.path.join('.')}: ${issue.message}`
-        ).join(', ');
-        return `❌ Error de validación: ${issues}`;
-      }
-
-      return `❌ Error inesperado: ${error instanceof Error ? error.message : String(error)}`;
     }
   }
-};
+});
 
 /**
  * Format response for MCP client consumption
  */
-function formatTicketsHistoryResponse(tickets: any[], servicioId: number): string {
+function formatTicketsHistoryResponse(tickets: any[], servicioId: number, truncado: boolean): string {
   if (tickets.length === 0) {
     return `📋 **Historial de Tickets - Servicio ${servicioId}**
 
@@ -132,7 +128,7 @@ function formatTicketsHistoryResponse(tickets: any[], servicioId: number): strin
     `📋 **Historial de Tickets - Servicio ${servicioId}**`,
     ``,
     `### 📊 Resumen`,
-    `- **Total de tickets:** ${tickets.length}`,
+    `- **Total de tickets:** ${tickets.length}${truncado ? ' (tope alcanzado, puede haber más)' : ''}`,
     `- **🆕 Abiertos:** ${ticketsAbiertos}`,
     `- **⚙️ En proceso:** ${ticketsEnProceso}`,
     `- **✅ Cerrados:** ${ticketsCerrados}`,
@@ -184,7 +180,7 @@ function formatTicketsHistoryResponse(tickets: any[], servicioId: number): strin
   response.push(`### 🛠️ Acciones Disponibles`);
   response.push(`- \`crear_ticket\` - Crear nuevo ticket para este cliente`);
   response.push(`- \`obtener_cliente clienteId:"${servicioId}"\` - Ver información completa del cliente`);
-  response.push(`- \`consultar_saldo_cliente servicio:${servicioId}\` - Verificar estado de cuenta`);
+  response.push(`- \`consultar_saldo_cliente id_servicio:${servicioId}\` - Verificar estado de cuenta`);
   
   if (ticketsAbiertos > 0 || ticketsEnProceso > 0) {
     response.push(`- \`actualizar_ticket\` - Modificar estado de tickets pendientes`);
@@ -208,9 +204,9 @@ function getEstadoIcon(estado: string): string {
 function getPrioridadIcon(prioridad: string): string {
   const icons = {
     'baja': '🟢',
-    'media': '🟡',
+    'normal': '🟡',
     'alta': '🔴',
-    'critica': '⚡'
+    'muy_alta': '⚡'
   };
   return icons[prioridad as keyof typeof icons] || '❓';
 }
@@ -0,0 +1,119 @@
+/**
+ * Typed tool definition helper
+ * The published JSON `inputSchema`/`outputSchema` are generated from the tool's
+ * Zod schemas, and arguments reach handlers already parsed by `argsSchema`, so
+ * the schemas clients see and the ones handlers use cannot diverge
+ */
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import { ErrorHandler } from '../utils/error-handler.js';
+import type { ToolErrorResult } from '../utils/error-handler.js';
+import type { ServiceResolver } from '../services/account-services.js';
+
+export type JsonSchemaObject = {
+  type: 'object';
+  properties?: Record<string, unknown>;
+  required?: string[];
+  [key: string]: unknown;
+};
+
+/**
+ * Successful tool result: markdown for humans plus the structured payload
+ */
+export interface ToolResult<T = unknown> {
+  text: string;
+  structuredContent: T;
+}
+
+/**
+ * What a tool handler resolves to: structured success or an `isError` result
+ */
+export type ToolHandlerResult<O extends z.AnyZodObject = z.AnyZodObject> =
+  ToolResult<z.infer<O>> | ToolErrorResult;
+
+/**
+ * What the server hands a handler on every call, so tools never build their
+ * own services (and can be exercised with fakes)
+ */
+export interface ToolContext {
+  /** Services of the account named by `cuenta` (default account when omitted) */
+  services: ServiceResolver;
+  /** Fires when the client cancels the call */
+  signal?: AbortSignal;
+}
+
+export interface ToolDefinition<
+  S extends z.AnyZodObject = z.AnyZodObject,
+  O extends z.AnyZodObject = z.AnyZodObject
+> {
+  name: string;
+  description: string;
+  annotations: ToolAnnotations;
+  argsSchema: S;
+  resultSchema: O;
+  inputSchema: JsonSchemaObject;
+  outputSchema: JsonSchemaObject;
+  handler(args: unknown, context: ToolContext): Promise<ToolHandlerResult<O>>;
+}
+
+/**
+ * What a tool module provides: its handler receives the arguments already
+ * parsed by `argsSchema`
+ */
+export interface ToolSpec<S extends z.AnyZodObject, O extends z.AnyZodObject>
+  extends Omit<ToolDefinition<S, O>, 'inputSchema' | 'outputSchema' | 'handler'> {
+  handler(args: z.infer<S>, context: ToolContext): Promise<ToolHandlerResult<O>>;
+}
+
+/**
+ * Build a tool definition, deriving `inputSchema` from `argsSchema` and
+ * `outputSchema` from `resultSchema`, and validating every call's arguments
+ * with `argsSchema` before the handler runs
+ */
+export function defineTool<S extends z.AnyZodObject, O extends z.AnyZodObject>(
+  spec: ToolSpec<S, O>
+): ToolDefinition<S, O> {
+  return {
+    ...spec,
+    inputSchema: toJsonSchema(spec.argsSchema),
+    outputSchema: toJsonSchema(spec.resultSchema),
+    async handler(args, context) {
+      const parsed = spec.argsSchema.safeParse(args ?? {});
+      if (!parsed.success) {
+        return ErrorHandler.handleError(parsed.error, { tool: spec.name, operation: 'validar_argumentos' });
+      }
+      return spec.handler(parsed.data, context);
+    }
+  };
+}
+
+/**
+ * Convert a Zod object schema to the JSON Schema shape MCP expects
+ */
+export function toJsonSchema(schema: z.AnyZodObject): JsonSchemaObject {
+  const { $schema, ...jsonSchema } = zodToJsonSchema(schema, {
+    target: 'jsonSchema7',
+    $refStrategy: 'none'
+  }) as JsonSchemaObject;
+
+  return jsonSchema;
+}
+
+/**
+ * Startup self-check: tool names must be unique. Throws listing the duplicates.
+ */
+export function assertUniqueToolNames(tools: ToolDefinition[]): void {
+  const seen = new Set<string>();
+  const duplicated = new Set<string>();
+
+  for (const tool of tools) {
+    if (seen.has(tool.name)) duplicated.add(tool.name);
+    seen.add(tool.name);
+  }
+
+  if (duplicated.size > 0) {
+    throw new Error(`Duplicated tool names: ${[...duplicated].join(', ')}`);
+  }
+}
@@ -0,0 +1,354 @@
+/**
+ * HTTP transport - Streamable HTTP (/mcp) plus legacy SSE (/sse + /messages)
+ * so several MCP clients can share one server process. Off loopback every
+ * request needs the bearer token, and Host headers are checked against
+ * DNS rebinding.
+ */
+
+import { createServer as createHttpServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createHash, randomUUID, timingSafeEqual } from 'node:crypto';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { Logger } from '../utils/logger.js';
+
+/**
+ * `authToken` is required as `Authorization: Bearer` when set; `allowedHosts`
+ * adds host names clients may use besides loopback and the listen address;
+ * Streamable HTTP sessions idle for `sessionIdleMs` are closed
+ */
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  authToken?: string;
+  allowedHosts?: string[];
+  sessionIdleMs: number;
+}
+
+/**
+ * A Streamable HTTP session and when its client was last heard from
+ */
+interface StreamableSession {
+  transport: StreamableHTTPServerTransport;
+  lastActivity: number;
+  // Open GET notification streams; a client listening on one is not idle
+  openStreams: number;
+}
+
+/**
+ * DNS rebinding settings shared by the Streamable HTTP and SSE transports
+ */
+interface TransportSecurity {
+  enableDnsRebindingProtection: boolean;
+  allowedHosts: string[];
+}
+
+const MCP_PATH = '/mcp';
+const SSE_PATH = '/sse';
+const SSE_MESSAGES_PATH = '/messages';
+
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '::1'];
+const WILDCARD_HOSTS = ['0.0.0.0', '::'];
+
+// Largest JSON-RPC body accepted; anything bigger gets 413
+const MAX_BODY_BYTES = 1024 * 1024;
+
+// Longest wait between sweeps for idle Streamable HTTP sessions
+const MAX_SESSION_SWEEP_MS = 60000;
+
+class BodyTooLargeError extends Error {
+  constructor() {
+    super(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    this.name = 'BodyTooLargeError';
+  }
+}
+
+/**
+ * Start the HTTP listener. Each client session gets its own MCP Server
+ * instance (built by `serverFactory`) since a Server binds to one transport.
+ * Clients that go away without sending DELETE are dropped once idle.
+ */
+export function startHttpTransport(
+  serverFactory: () => Server,
+  options: HttpTransportOptions
+): Promise<HttpServer> {
+  // Anyone on the network could otherwise call the write tools
+  if (!options.authToken && !LOOPBACK_HOSTS.includes(options.host)) {
+    return Promise.reject(new Error(
+      `WISPHUB_HTTP_TOKEN is required to listen on ${options.host} (only loopback addresses may run without a token)`
+    ));
+  }
+
+  const security: TransportSecurity = {
+    enableDnsRebindingProtection: true,
+    allowedHosts: getAllowedHosts(options, options.port)
+  };
+
+  if (WILDCARD_HOSTS.includes(options.host) && !options.allowedHosts?.length) {
+    Logger.warn('Listening on every interface without WISPHUB_HTTP_ALLOWED_HOSTS: only loopback Host headers are accepted', {
+      host: options.host
+    });
+  }
+
+  const streamableSessions = new Map<string, StreamableSession>();
+  const sseSessions = new Map<string, SSEServerTransport>();
+
+  const httpServer = createHttpServer(async (req, res) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+    if (options.authToken && !isAuthorized(req, options.authToken)) {
+      Logger.warn('HTTP request rejected: missing or invalid bearer token', { method: req.method, path: url.pathname });
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendJsonRpcError(res, 401, 'Unauthorized');
+      return;
+    }
+
+    try {
+      if (url.pathname === MCP_PATH) {
+        await handleStreamableRequest(req, res, streamableSessions, serverFactory, security, options.sessionIdleMs);
+      } else if (url.pathname === SSE_PATH && req.method === 'GET') {
+        await handleSseConnect(res, sseSessions, serverFactory, security);
+      } else if (url.pathname === SSE_MESSAGES_PATH && req.method === 'POST') {
+        await handleSseMessage(req, res, url, sseSessions);
+      } else {
+        sendJsonRpcError(res, 404, 'Not found');
+      }
+    } catch (error) {
+      Logger.error('HTTP transport request failed', error, {
+        method: req.method,
+        path: url.pathname
+      });
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, 'Internal server error');
+      }
+    }
+  });
+
+  const sweeper = setInterval(() => {
+    for (const [sessionId, session] of streamableSessions) {
+      if (isIdle(session, options.sessionIdleMs)) {
+        expireSession(streamableSessions, sessionId, session);
+      }
+    }
+  }, Math.min(options.sessionIdleMs, MAX_SESSION_SWEEP_MS));
+  sweeper.unref();
+  httpServer.on('close', () => clearInterval(sweeper));
+
+  return new Promise((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      // Port 0 binds a free port, which Host headers then carry
+      const { port } = httpServer.address() as AddressInfo;
+      security.allowedHosts = getAllowedHosts(options, port);
+
+      Logger.info('HTTP transport listening', {
+        host: options.host,
+        port,
+        streamable_http: MCP_PATH,
+        sse: SSE_PATH,
+        auth: options.authToken ? 'bearer' : 'none',
+        allowed_hosts: security.allowedHosts,
+        session_idle_ms: options.sessionIdleMs
+      });
+      resolve(httpServer);
+    });
+  });
+}
+
+/**
+ * Streamable HTTP: POST carries requests, GET opens the notification stream,
+ * DELETE ends the session
+ */
+async function handleStreamableRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  sessions: Map<string, StreamableSession>,
+  serverFactory: () => Server,
+  security: TransportSecurity,
+  sessionIdleMs: number
+): Promise<void> {
+  const sessionId = req.headers['mcp-session-id'] as string | undefined;
+  let body: unknown;
+  if (req.method === 'POST') {
+    try {
+      body = await readJsonBody(req);
+    } catch (error) {
+      if (error instanceof BodyTooLargeError) {
+        sendJsonRpcError(res, 413, error.message);
+      } else {
+        sendJsonRpcError(res, 400, error instanceof Error ? error.message : String(error), -32700);
+      }
+      return;
+    }
+  }
+
+  const existing = sessionId ? sessions.get(sessionId) : undefined;
+  if (sessionId && existing && isIdle(existing, sessionIdleMs)) {
+    expireSession(sessions, sessionId, existing);
+  } else if (existing) {
+    trackActivity(existing, req, res);
+    await existing.transport.handleRequest(req, res, body);
+    return;
+  }
+
+  // Expired or unknown session: 404 tells the client to initialize a new one
+  if (sessionId) {
+    sendJsonRpcError(res, 404, 'Session not found');
+    return;
+  }
+
+  if (req.method !== 'POST' || !isInitializeRequest(body)) {
+    sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+    return;
+  }
+
+  const transport = new StreamableHTTPServerTransport({
+    ...security,
+    sessionIdGenerator: () => randomUUID(),
+    onsessioninitialized: (newSessionId) => {
+      sessions.set(newSessionId, { transport, lastActivity: Date.now(), openStreams: 0 });
+      Logger.info('HTTP session opened', { session_id: newSessionId, transport: 'streamable_http' });
+    }
+  });
+
+  transport.onclose = () => {
+    if (transport.sessionId) {
+      sessions.delete(transport.sessionId);
+      Logger.info('HTTP session closed', { session_id: transport.sessionId, transport: 'streamable_http' });
+    }
+  };
+
+  await serverFactory().connect(transport);
+  await transport.handleRequest(req, res, body);
+}
+
+/**
+ * Record a request on `session`; an open GET stream keeps it active until
+ * the stream closes
+ */
+function trackActivity(session: StreamableSession, req: IncomingMessage, res: ServerResponse): void {
+  session.lastActivity = Date.now();
+  if (req.method !== 'GET') return;
+
+  session.openStreams++;
+  res.on('close', () => {
+    session.openStreams--;
+    session.lastActivity = Date.now();
+  });
+}
+
+function isIdle(session: StreamableSession, sessionIdleMs: number): boolean {
+  return session.openStreams === 0 && Date.now() - session.lastActivity > sessionIdleMs;
+}
+
+/**
+ * Forget an idle session and close its transport, which also closes its MCP Server
+ */
+function expireSession(sessions: Map<string, StreamableSession>, sessionId: string, session: StreamableSession): void {
+  sessions.delete(sessionId);
+  Logger.info('HTTP session expired', { session_id: sessionId, transport: 'streamable_http' });
+  session.transport.close().catch(error => {
+    Logger.error('Failed to close expired HTTP session', error, { session_id: sessionId });
+  });
+}
+
+/**
+ * Legacy SSE: GET opens the event stream, the client then POSTs to /messages
+ */
+async function handleSseConnect(
+  res: ServerResponse,
+  sessions: Map<string, SSEServerTransport>,
+  serverFactory: () => Server,
+  security: TransportSecurity
+): Promise<void> {
+  const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res, security);
+  sessions.set(transport.sessionId, transport);
+  Logger.info('HTTP session opened', { session_id: transport.sessionId, transport: 'sse' });
+
+  res.on('close', () => {
+    sessions.delete(transport.sessionId);
+    Logger.info('HTTP session closed', { session_id: transport.sessionId, transport: 'sse' });
+  });
+
+  await serverFactory().connect(transport);
+}
+
+async function handleSseMessage(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  sessions: Map<string, SSEServerTransport>
+): Promise<void> {
+  const sessionId = url.searchParams.get('sessionId') || '';
+  const transport = sessions.get(sessionId);
+
+  if (!transport) {
+    sendJsonRpcError(res, 404, `Unknown SSE session: ${sessionId}`);
+    return;
+  }
+
+  await transport.handlePostMessage(req, res);
+}
+
+/**
+ * Read and parse a JSON request body of at most MAX_BODY_BYTES
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new BodyTooLargeError();
+    }
+    chunks.push(chunk);
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf-8');
+  if (!raw) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`Invalid JSON body: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Constant-time check of the `Authorization: Bearer` header
+ */
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+  if (!match) return false;
+
+  // Hashing first keeps timingSafeEqual's inputs the same length
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(match[1].trim()), digest(token));
+}
+
+/**
+ * Host header values accepted: loopback names, the listen address and the
+ * configured names, each with and without the port
+ */
+function getAllowedHosts(options: HttpTransportOptions, port: number): string[] {
+  const names = ['localhost', '127.0.0.1', '[::1]', ...(options.allowedHosts || [])];
+  if (!WILDCARD_HOSTS.includes(options.host) && !LOOPBACK_HOSTS.includes(options.host)) {
+    names.push(options.host.includes(':') ? `[${options.host}]` : options.host);
+  }
+
+  return [...new Set(names.flatMap(name => [name, `${name}:${port}`]))];
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string, code: number = -32000): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null
+  }));
+}
@@ -2,6 +2,9 @@
  * WispHub API types and interfaces
  */
 
+import type { z } from 'zod';
+import type { DiagnosticoServidorOutputSchema } from '../validators/schemas.js';
+
 // API Response types (raw from WispHub) - Estructura real
 export interface ApiCliente {
   id_servicio: number;
@@ -78,7 +81,7 @@ export interface ApiTicket {
   descripcion: string;
   estado: number; // 1=abierto, 2=en_proceso, 3=cerrado
   prioridad: number; // 1=baja, 2=media, 3=alta, 4=critica
-  tecnico: string;
+  tecnico: string | null; // null while unassigned
   fecha_creacion: string;
   fecha_cierre?: string;
 }
@@ -197,6 +200,7 @@ export interface ConsultarClientesInput {
   search?: string; // Search in name/email
   limit?: number;
   offset?: number;
+  todos?: boolean; // Walk every page, ignoring limit/offset
 }
 
 export interface ObtenerClienteInput {
@@ -276,4 +280,59 @@ export interface ToolResponse<T = any> {
   error?: string;
   timestamp: string;
   debugInfo?: any;
-}
\ No newline at end of file
+}
+
+/**
+ * List response - `truncado` when walking every page stopped at the item cap
+ * with more still pending
+ */
+export interface ListToolResponse<T> extends ToolResponse<T[]> {
+  truncado?: boolean;
+}
+
+// Server diagnostics
+export type EstadoApi = 'ok' | 'auth_error' | 'rate_limited' | 'server_error' | 'client_error' | 'unreachable';
+
+export interface ApiProbeResult {
+  estado: EstadoApi;
+  reachable: boolean;
+  status?: number;
+  latency_ms: number;
+  error?: string;
+}
+
+export type EstadoCircuito = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerStatus {
+  estado: EstadoCircuito;
+  fallos_consecutivos: number;
+  reintento_en_s?: number;
+}
+
+// Fields an endpoint returned that differ from the expected payload shape
+export interface DerivaEndpoint {
+  muestras: number;
+  inesperados: string[];
+  faltantes: string[];
+  invalidos: string[];
+  ultima_vez?: string;
+}
+
+export type EstadoEndpoint = 'disponible' | 'no_disponible' | 'desconocido';
+
+// What the capability probe learned about one WispHub collection endpoint
+export interface CapacidadEndpoint {
+  estado: EstadoEndpoint;
+  metodos_lista: string[];   // Allowed on /api/<recurso>/
+  metodos_detalle: string[]; // Allowed on /api/<recurso>/{id}/
+  status?: number;
+  error?: string;
+}
+
+export interface CapacidadesApi {
+  sondeado_en: string;
+  endpoints: Record<string, CapacidadEndpoint>;
+}
+
+// The tool adds `cuenta` to what the service reports
+export type DiagnosticoServidor = Omit<z.infer<typeof DiagnosticoServidorOutputSchema>, 'cuenta'>;
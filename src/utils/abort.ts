@@ -0,0 +1,20 @@
+/**
+ * Cancellation helpers for work shared by several callers
+ */
+
+/**
+ * Wait for a shared promise, rejecting early if this caller's signal aborts.
+ * The shared work itself keeps running for everyone else.
+ */
+export function waitForShared<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new Error('Request cancelled'));
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new Error('Request cancelled'));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
@@ -0,0 +1,114 @@
+/**
+ * Lenient runtime validation of WispHub API payloads with drift tracking
+ */
+
+import type { z } from 'zod';
+import { Logger } from './logger.js';
+import type { DerivaEndpoint } from '../types/wisphub.types.js';
+
+interface DriftEntry {
+  samples: number;
+  unexpected: Set<string>;
+  missing: Set<string>;
+  invalid: Set<string>;
+  lastSeen?: string;
+}
+
+export class ApiPayloadValidator {
+  private static drift = new Map<string, DriftEntry>();
+
+  /**
+   * Coerce `payload` field by field. A field that fails its schema keeps the
+   * raw value, so one bad field never drops the whole record; unexpected,
+   * missing and invalid fields are recorded against `endpoint`.
+   */
+  static parse<T>(schema: z.AnyZodObject, payload: unknown, endpoint: string): T {
+    const key = this.normalizeEndpoint(endpoint);
+
+    if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+      this.record(key, { unexpected: [], missing: [], invalid: ['(payload)'] });
+      return payload as T;
+    }
+
+    const raw = payload as Record<string, unknown>;
+    const data: Record<string, unknown> = { ...raw };
+    const missing: string[] = [];
+    const invalid: string[] = [];
+
+    for (const [field, fieldSchema] of Object.entries(schema.shape as Record<string, z.ZodTypeAny>)) {
+      const result = fieldSchema.safeParse(raw[field]);
+      if (result.success) {
+        if (result.data !== undefined) data[field] = result.data;
+      } else if (raw[field] === undefined) {
+        missing.push(field);
+      } else {
+        invalid.push(field);
+      }
+    }
+
+    const unexpected = Object.keys(raw).filter(field => !(field in schema.shape));
+
+    this.record(key, { unexpected, missing, invalid });
+    return data as T;
+  }
+
+  /**
+   * `parse` for every item of a list response
+   */
+  static parseList<T>(schema: z.AnyZodObject, items: unknown[], endpoint: string): T[] {
+    return items.map(item => this.parse<T>(schema, item, endpoint));
+  }
+
+  /**
+   * Fields seen drifting from the expected payload shape, by endpoint
+   */
+  static getDriftReport(): Record<string, DerivaEndpoint> {
+    const report: Record<string, DerivaEndpoint> = {};
+
+    for (const [endpoint, entry] of this.drift) {
+      report[endpoint] = {
+        muestras: entry.samples,
+        inesperados: [...entry.unexpected].sort(),
+        faltantes: [...entry.missing].sort(),
+        invalidos: [...entry.invalid].sort(),
+        ultima_vez: entry.lastSeen
+      };
+    }
+
+    return report;
+  }
+
+  private static record(endpoint: string, found: { unexpected: string[]; missing: string[]; invalid: string[] }): void {
+    let entry = this.drift.get(endpoint);
+    if (!entry) {
+      entry = { samples: 0, unexpected: new Set(), missing: new Set(), invalid: new Set() };
+      this.drift.set(endpoint, entry);
+    }
+
+    entry.samples++;
+
+    // Log each drifting field once per endpoint, not on every response
+    const news = {
+      unexpected: found.unexpected.filter(field => !entry!.unexpected.has(field)),
+      missing: found.missing.filter(field => !entry!.missing.has(field)),
+      invalid: found.invalid.filter(field => !entry!.invalid.has(field))
+    };
+
+    found.unexpected.forEach(field => entry!.unexpected.add(field));
+    found.missing.forEach(field => entry!.missing.add(field));
+    found.invalid.forEach(field => entry!.invalid.add(field));
+
+    if (found.unexpected.length || found.missing.length || found.invalid.length) {
+      entry.lastSeen = new Date().toISOString();
+    }
+
+    if (news.unexpected.length || news.missing.length || news.invalid.length) {
+      Logger.warn('WispHub API payload drift detected', { endpoint, ...news });
+    }
+  }
+
+  // /api/clientes/123/saldo/ -> /api/clientes/{id}/saldo/
+  private static normalizeEndpoint(endpoint: string): string {
+    return endpoint.replace(/\/\d+(?=\/|$)/g, '/{id}');
+  }
+}
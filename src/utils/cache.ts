@@ -1,31 +1,93 @@
 /**
- * Simple in-memory cache with TTL support
+ * In-memory LRU cache with TTL support, bounded by entry count and
+ * approximate size, with a periodic sweep of expired entries. Entries can
+ * carry tags so related ones are invalidated together.
  */
 
 interface CacheEntry<T> {
   value: T;
   expires: number;
+  bytes: number;
+  tags: string[];
+}
+
+/**
+ * Limits for a cache - omitted ones are unbounded, and without
+ * `sweepIntervalMs` expired entries are only dropped when read
+ */
+export interface CacheOptions {
+  maxEntries?: number;
+  maxBytes?: number;
+  sweepIntervalMs?: number;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  sets: number;
+  deletes: number;
+  clears: number;
+  evictions: number;
+  size: number;
+  bytes: number;
+  hitRate: number;
 }
 
 export class CacheManager {
+  // Map iteration follows insertion order; reads re-insert, so the first key is the least recently used
   private cache = new Map<string, CacheEntry<any>>();
+  private keysByTag = new Map<string, Set<string>>();
+  private bytes = 0;
+  private sweeper?: NodeJS.Timeout;
   private stats = {
     hits: 0,
     misses: 0,
     sets: 0,
     deletes: 0,
-    clears: 0
+    clears: 0,
+    evictions: 0
   };
 
+  constructor(private options: CacheOptions = {}) {
+    if (options.sweepIntervalMs) {
+      this.sweeper = setInterval(() => this.cleanup(), options.sweepIntervalMs);
+      // The sweep alone must not keep the process alive
+      this.sweeper.unref();
+    }
+  }
+
   /**
-   * Set a value in cache with TTL
+   * Set a value in cache with TTL and optional tags, evicting the least
+   * recently used entries to stay within the limits. A value larger than
+   * `maxBytes` is not cached.
    */
-  set<T>(key: string, value: T, ttl: number): void {
+  set<T>(key: string, value: T, ttl: number, tags: string[] = []): void {
+    this.remove(key);
+
+    const bytes = estimateBytes(value);
+    if (this.options.maxBytes !== undefined && bytes > this.options.maxBytes) {
+      return;
+    }
+
     this.cache.set(key, {
       value,
-      expires: Date.now() + ttl
+      expires: Date.now() + ttl,
+      bytes,
+      tags
     });
+    this.bytes += bytes;
+
+    for (const tag of tags) {
+      let keys = this.keysByTag.get(tag);
+      if (!keys) {
+        keys = new Set();
+        this.keysByTag.set(tag, keys);
+      }
+      keys.add(key);
+    }
     this.stats.sets++;
+
+    this.evict();
   }
 
   /**
@@ -33,7 +95,7 @@ export class CacheManager {
    */
   get<T>(key: string): T | null {
     const entry = this.cache.get(key);
-    
+
     if (!entry) {
       this.stats.misses++;
       return null;
@@ -41,12 +103,16 @@ export class CacheManager {
 
     // Check if expired
     if (entry.expires < Date.now()) {
-      this.cache.delete(key);
+      this.remove(key);
       this.stats.misses++;
       this.stats.deletes++;
       return null;
     }
 
+    // Mark as most recently used
+    this.cache.delete(key);
+    this.cache.set(key, entry);
+
     this.stats.hits++;
     return entry.value as T;
   }
@@ -55,28 +121,47 @@ export class CacheManager {
    * Delete a specific key
    */
   delete(key: string): boolean {
-    const deleted = this.cache.delete(key);
+    const deleted = this.remove(key);
     if (deleted) {
       this.stats.deletes++;
     }
     return deleted;
   }
 
+  /**
+   * Delete every entry carrying any of `tags`. Returns how many were deleted.
+   */
+  invalidateTags(tags: string[]): number {
+    let deletedCount = 0;
+
+    for (const tag of tags) {
+      for (const key of this.keysByTag.get(tag) ?? []) {
+        if (this.remove(key)) deletedCount++;
+      }
+    }
+
+    this.stats.deletes += deletedCount;
+    return deletedCount;
+  }
+
   /**
    * Clear all cache
    */
   clear(): void {
     this.cache.clear();
+    this.keysByTag.clear();
+    this.bytes = 0;
     this.stats.clears++;
   }
 
   /**
    * Get cache statistics
    */
-  getStats(): object {
+  getStats(): CacheStats {
     return {
       ...this.stats,
       size: this.cache.size,
+      bytes: this.bytes,
       hitRate: this.stats.hits / (this.stats.hits + this.stats.misses) || 0
     };
   }
@@ -90,7 +175,7 @@ export class CacheManager {
 
     for (const [key, entry] of this.cache.entries()) {
       if (entry.expires < now) {
-        this.cache.delete(key);
+        this.remove(key);
         cleanedCount++;
       }
     }
@@ -105,4 +190,49 @@ export class CacheManager {
   size(): number {
     return this.cache.size;
   }
-}
\ No newline at end of file
+
+  /**
+   * Stop the periodic sweep
+   */
+  dispose(): void {
+    clearInterval(this.sweeper);
+    this.sweeper = undefined;
+  }
+
+  /**
+   * Drop the least recently used entries until both limits hold
+   */
+  private evict(): void {
+    const { maxEntries = Infinity, maxBytes = Infinity } = this.options;
+
+    for (const key of this.cache.keys()) {
+      if (this.cache.size <= maxEntries && this.bytes <= maxBytes) break;
+      this.remove(key);
+      this.stats.evictions++;
+    }
+  }
+
+  private remove(key: string): boolean {
+    const entry = this.cache.get(key);
+    if (!entry) return false;
+
+    this.cache.delete(key);
+    this.bytes -= entry.bytes;
+
+    for (const tag of entry.tags) {
+      const keys = this.keysByTag.get(tag);
+      keys?.delete(key);
+      if (keys?.size === 0) this.keysByTag.delete(tag);
+    }
+    return true;
+  }
+}
+
+/**
+ * Approximate memory footprint of a value: its JSON size in bytes. Cached
+ * values are API responses, so this tracks what was received.
+ */
+function estimateBytes(value: unknown): number {
+  const json = JSON.stringify(value);
+  return json === undefined ? 0 : Buffer.byteLength(json);
+}
@@ -0,0 +1,123 @@
+/**
+ * Circuit breaker for the WispHub API: after repeated failures, fail fast
+ * instead of spending retries and backoff on an API that is down
+ */
+
+import { Logger } from './logger.js';
+import type { CircuitBreakerStatus, EstadoCircuito } from '../types/wisphub.types.js';
+
+/**
+ * Raised without contacting the API while the circuit is open
+ */
+export class CircuitOpenError extends Error {
+  constructor(public retryInMs: number) {
+    super(`WispHub API unavailable: circuit open (retry in ${Math.ceil(retryInMs / 1000)}s)`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export class CircuitBreaker {
+  private estado: EstadoCircuito = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialStartedAt = 0;
+
+  /**
+   * @param failureThreshold Consecutive failures (network errors, timeouts, 5xx) that open the circuit
+   * @param resetTimeoutMs How long the circuit stays open before a single trial request is let through
+   * @param account WispHub account the circuit guards, for logs
+   */
+  constructor(private failureThreshold: number, private resetTimeoutMs: number, private account?: string) {}
+
+  /**
+   * Throw CircuitOpenError unless a request may be sent now. While half-open
+   * only one trial request is in flight; a trial that never reports back is
+   * replaced after the reset timeout. Returns whether this request is that trial.
+   */
+  assertCanRequest(): boolean {
+    const now = Date.now();
+
+    if (this.estado === 'open') {
+      const retryInMs = this.openedAt + this.resetTimeoutMs - now;
+      if (retryInMs > 0) {
+        throw new CircuitOpenError(retryInMs);
+      }
+      this.transition('half_open');
+    }
+
+    if (this.estado === 'half_open') {
+      if (this.trialStartedAt && now - this.trialStartedAt < this.resetTimeoutMs) {
+        throw new CircuitOpenError(this.trialStartedAt + this.resetTimeoutMs - now);
+      }
+      this.trialStartedAt = now;
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * The trial request never reached the API (rate limited or cancelled before
+   * an answer): let the next request be the trial instead
+   */
+  releaseTrial(): void {
+    if (this.estado === 'half_open') {
+      this.trialStartedAt = 0;
+    }
+  }
+
+  /**
+   * The API answered (any status below 500)
+   */
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    if (this.estado !== 'closed') {
+      this.transition('closed');
+    }
+  }
+
+  /**
+   * The API did not answer, timed out or answered 5xx
+   */
+  recordFailure(): void {
+    this.consecutiveFailures++;
+
+    if (this.estado === 'half_open' || (this.estado === 'closed' && this.consecutiveFailures >= this.failureThreshold)) {
+      this.openedAt = Date.now();
+      this.transition('open');
+    }
+  }
+
+  /**
+   * Milliseconds until the open circuit lets a trial through, 0 if not open
+   */
+  getRetryInMs(): number {
+    return this.estado === 'open' ? Math.max(0, this.openedAt + this.resetTimeoutMs - Date.now()) : 0;
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    const status: CircuitBreakerStatus = {
+      estado: this.estado,
+      fallos_consecutivos: this.consecutiveFailures
+    };
+
+    if (this.estado === 'open') {
+      status.reintento_en_s = Math.ceil(this.getRetryInMs() / 1000);
+    }
+
+    return status;
+  }
+
+  private transition(estado: EstadoCircuito): void {
+    const previous = this.estado;
+    this.estado = estado;
+    this.trialStartedAt = 0;
+
+    const data = { account: this.account, from: previous, to: estado, consecutive_failures: this.consecutiveFailures };
+    if (estado === 'open') {
+      Logger.warn('WispHub circuit breaker opened', { ...data, reset_timeout_ms: this.resetTimeoutMs });
+    } else {
+      Logger.info('WispHub circuit breaker state changed', data);
+    }
+  }
+}
@@ -119,7 +119,7 @@ export class DataTransformer {
       descripcion: apiTicket.descripcion,
       estado: this.estadoTicketToString(apiTicket.estado),
       prioridad: this.prioridadTicketToString(apiTicket.prioridad),
-      tecnico: apiTicket.tecnico,
+      tecnico: apiTicket.tecnico || '',
       fecha_creacion: this.dateApiToISO(apiTicket.fecha_creacion),
       fecha_cierre: apiTicket.fecha_cierre ? this.dateApiToISO(apiTicket.fecha_cierre) : undefined
     };
@@ -199,11 +199,11 @@ export class DataTransformer {
   }
 
   static estadoTicketToString(estado: number): EstadoTicket {
-    return ESTADO_TICKET_MAP[estado] || 'abierto';
+    return ESTADO_TICKET_MAP[estado] || 'nuevo';
   }
 
   static prioridadTicketToString(prioridad: number): PrioridadTicket {
-    return PRIORIDAD_TICKET_MAP[prioridad] || 'media';
+    return PRIORIDAD_TICKET_MAP[prioridad] || 'normal';
   }
 
   /**
@@ -13,7 +13,20 @@ export interface ErrorDetails {
   suggestions?: string[];
 }
 
+/**
+ * Failed tool call: `isError` result with a machine-readable error code
+ */
+export interface ToolErrorResult {
+  isError: true;
+  code: string;
+  text: string;
+}
+
+// Recent error occurrences kept for diagnostics
+const MAX_RECENT_ERRORS = 500;
+
 export class ErrorHandler {
+  private static recentErrors: Array<{ code: string; timestamp: number }> = [];
   
   /**
    * Handle and format errors consistently across all tools
@@ -23,7 +36,7 @@ export class ErrorHandler {
     operation: string;
     duration?: number;
     requestId?: string;
-  }): string {
+  }): ToolErrorResult {
     const errorDetails = this.analyzeError(error, context);
     
     // Log error with context
@@ -35,8 +48,43 @@ export class ErrorHandler {
       errorCode: errorDetails.code
     });
 
-    // Return user-friendly formatted message
-    return this.formatErrorMessage(errorDetails);
+    return this.toToolError(errorDetails);
+  }
+
+  /**
+   * Build the tool error result, with a user-friendly formatted message
+   */
+  static toToolError(errorDetails: ErrorDetails): ToolErrorResult {
+    this.recordError(errorDetails.code);
+
+    return {
+      isError: true,
+      code: errorDetails.code,
+      text: this.formatErrorMessage(errorDetails)
+    };
+  }
+
+  /**
+   * Error counts by code within the last `windowMs`
+   */
+  static getErrorStats(windowMs: number): Record<string, number> {
+    const since = Date.now() - windowMs;
+    const counts: Record<string, number> = {};
+
+    for (const { code, timestamp } of this.recentErrors) {
+      if (timestamp >= since) {
+        counts[code] = (counts[code] || 0) + 1;
+      }
+    }
+
+    return counts;
+  }
+
+  private static recordError(code: string): void {
+    this.recentErrors.push({ code, timestamp: Date.now() });
+    if (this.recentErrors.length > MAX_RECENT_ERRORS) {
+      this.recentErrors.shift();
+    }
   }
 
   /**
@@ -64,6 +112,24 @@ export class ErrorHandler {
 
     // Network/API errors
     if (error instanceof Error) {
+      if (error.message.includes('Request cancelled') || error.name === 'AbortError') {
+        return {
+          code: 'CANCELLED_ERROR',
+          message: error.message,
+          userMessage: `❌ Operación cancelada: La solicitud a WispHub se interrumpió`,
+          context: { originalError: error.message }
+        };
+      }
+
+      if (error.message.includes('circuit open')) {
+        const retryIn = error.message.match(/retry in (\d+)s/);
+        return {
+          ...this.createUnavailableError(retryIn ? parseInt(retryIn[1], 10) : undefined),
+          message: error.message,
+          context: { originalError: error.message }
+        };
+      }
+
       if (error.message.includes('ECONNREFUSED') || 
           error.message.includes('network') ||
           error.message.includes('timeout')) {
@@ -95,6 +161,15 @@ export class ErrorHandler {
         };
       }
 
+      if (error.message.includes('429') || error.message.includes('Too Many Requests')) {
+        const retryAfter = error.message.match(/Retry-After: (\d+)s/);
+        return {
+          ...this.createRateLimitError(retryAfter ? parseInt(retryAfter[1], 10) : undefined),
+          message: error.message,
+          context: { originalError: error.message }
+        };
+      }
+
       if (error.message.includes('404') || error.message.includes('Not Found')) {
         return {
           code: 'NOT_FOUND_ERROR',
@@ -218,6 +293,66 @@ export class ErrorHandler {
     return false;
   }
 
+  /**
+   * Create standardized validation error for checks beyond the Zod schema
+   */
+  static createValidationError(message: string): ErrorDetails {
+    return {
+      code: 'VALIDATION_ERROR',
+      message,
+      userMessage: `❌ Error de validación: ${message}`,
+      suggestions: [
+        'Revisar los parámetros enviados',
+        'Consultar la documentación de la herramienta'
+      ]
+    };
+  }
+
+  /**
+   * Create standardized not found error
+   */
+  static createNotFoundError(resource: string, id: string | number): ErrorDetails {
+    return {
+      code: 'NOT_FOUND_ERROR',
+      message: `${resource} ${id} not found`,
+      userMessage: `❌ Recurso no encontrado: ${resource} con ID ${id}`,
+      suggestions: [
+        'Verificar que el ID proporcionado sea correcto',
+        'Confirmar que el recurso existe en el sistema'
+      ]
+    };
+  }
+
+  /**
+   * Create standardized error for a tool this deployment does not allow
+   */
+  static createPermissionError(tool: string, reason: string): ErrorDetails {
+    return {
+      code: 'PERMISSION_ERROR',
+      message: `Tool ${tool} not allowed: ${reason}`,
+      userMessage: `❌ Operación no permitida: \`${tool}\` no está disponible (${reason})`,
+      suggestions: [
+        'Usar solo herramientas de consulta',
+        'Solicitar la operación a un operador con el perfil adecuado'
+      ]
+    };
+  }
+
+  /**
+   * Create standardized error for an API call that succeeded without usable data
+   */
+  static createEmptyResponseError(operation: string): ErrorDetails {
+    return {
+      code: 'SERVER_ERROR',
+      message: `Empty API response in ${operation}`,
+      userMessage: `❌ Error del servidor: La API de WispHub no devolvió datos (${operation})`,
+      suggestions: [
+        'Verificar el resultado en el panel de WispHub',
+        'Intentar nuevamente en unos minutos'
+      ]
+    };
+  }
+
   /**
    * Create standardized timeout error
    */
@@ -234,6 +369,24 @@ export class ErrorHandler {
     };
   }
 
+  /**
+   * Create standardized error for calls rejected while the circuit breaker is open
+   */
+  static createUnavailableError(retryIn?: number): ErrorDetails {
+    const waitTime = retryIn ? `${retryIn} segundos` : 'unos segundos';
+
+    return {
+      code: 'UNAVAILABLE_ERROR',
+      message: `WispHub API unavailable, retry in ${retryIn ?? 'unknown'} seconds`,
+      userMessage: `❌ WispHub no disponible: La API falló repetidamente; se reintentará en ${waitTime}`,
+      suggestions: [
+        `Esperar ${waitTime} antes del próximo intento`,
+        'Usar `diagnostico_servidor` para ver el estado de la conexión',
+        'Verificar el estado del servicio WispHub'
+      ]
+    };
+  }
+
   /**
    * Create standardized rate limit error
    */
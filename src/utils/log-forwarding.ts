@@ -0,0 +1,53 @@
+/**
+ * Forward Logger entries to an MCP client as `notifications/message`
+ */
+
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { LoggingLevel } from '@modelcontextprotocol/sdk/types.js';
+import type { LogEntry, LogLevel, LogSink } from './logger.js';
+
+// RFC 5424 severities used by MCP, lowest first
+const MCP_LEVELS: LoggingLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+const LEVEL_MAP: Record<LogLevel, LoggingLevel> = {
+  debug: 'debug',
+  info: 'info',
+  warn: 'warning',
+  error: 'error'
+};
+
+export interface LogForwarder {
+  /** Sink for one request; `context` fills in tool/request_id the entry lacks */
+  sinkFor(context?: Pick<LogEntry, 'tool' | 'request_id'>): LogSink;
+  setLevel(level: LoggingLevel): void;
+}
+
+/**
+ * Per-server forwarder; the client raises or lowers the threshold with logging/setLevel
+ */
+export function createLogForwarder(server: Server, initialLevel: LoggingLevel = 'info'): LogForwarder {
+  let minLevel = initialLevel;
+
+  return {
+    sinkFor(context = {}) {
+      return (entry: LogEntry) => {
+        const level = LEVEL_MAP[entry.level];
+        if (MCP_LEVELS.indexOf(level) < MCP_LEVELS.indexOf(minLevel)) return;
+
+        const data = { ...context, ...entry };
+
+        server.sendLoggingMessage({
+          level,
+          logger: data.tool || 'wisphub-customercare',
+          data
+        }).catch(() => {
+          // Client gone or not connected yet - stderr already has the entry
+        });
+      };
+    },
+
+    setLevel(level: LoggingLevel) {
+      minLevel = level;
+    }
+  };
+}
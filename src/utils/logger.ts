@@ -2,9 +2,11 @@
  * Structured logging utility for the MCP server
  */
 
-type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+import { AsyncLocalStorage } from 'node:async_hooks';
 
-interface LogEntry {
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogEntry {
   level: LogLevel;
   timestamp: string;
   server: 'CustomerCare';
@@ -16,8 +18,22 @@ interface LogEntry {
   meta?: object;
 }
 
+/**
+ * Extra destination for log entries (e.g. MCP logging notifications)
+ */
+export type LogSink = (entry: LogEntry) => void;
+
 export class Logger {
   private static isDevelopment = process.env.NODE_ENV !== 'production';
+  private static sinkContext = new AsyncLocalStorage<LogSink>();
+
+  /**
+   * Run `fn` with `sink` receiving every entry logged from within it,
+   * including async work it starts
+   */
+  static withSink<T>(sink: LogSink, fn: () => T): T {
+    return this.sinkContext.run(sink, fn);
+  }
 
   private static log(level: LogLevel, action: string, meta?: object): void {
     const entry: LogEntry = {
@@ -46,6 +62,15 @@ export class Logger {
 
     // Always log structured JSON to stderr for external log collectors
     console.error(JSON.stringify(entry));
+
+    const sink = this.sinkContext.getStore();
+    if (sink) {
+      try {
+        sink(entry);
+      } catch {
+        // A failing sink must never break the operation being logged
+      }
+    }
   }
 
   static debug(action: string, meta?: object): void {
@@ -0,0 +1,43 @@
+/**
+ * Operator profile permissions - tool and argument whitelists per profile
+ */
+
+import type { OperatorProfile } from '../config/server-config.js';
+
+// Arguments any profile may send: they pick the account, they are never written
+const ALWAYS_ALLOWED_FIELDS = ['cuenta'];
+
+/**
+ * Whether the profile may call the tool at all (used to filter ListTools)
+ */
+export function isToolAllowed(profile: OperatorProfile | undefined, toolName: string): boolean {
+  if (!profile) return true;
+  return profile.tools.includes('*') || profile.tools.includes(toolName);
+}
+
+/**
+ * Check a tool call against the profile. Returns the denial reason, or
+ * undefined when the call is allowed.
+ */
+export function checkToolPermission(
+  profile: OperatorProfile | undefined,
+  toolName: string,
+  args: Record<string, unknown> = {}
+): string | undefined {
+  if (!profile) return undefined;
+
+  if (!isToolAllowed(profile, toolName)) {
+    return 'herramienta no incluida en el perfil';
+  }
+
+  const allowedFields = profile.fields?.[toolName];
+  if (!allowedFields) return undefined;
+
+  const deniedFields = Object.keys(args)
+    .filter(field => !allowedFields.includes(field) && !ALWAYS_ALLOWED_FIELDS.includes(field));
+  if (deniedFields.length > 0) {
+    return `campos no permitidos por el perfil: ${deniedFields.join(', ')}`;
+  }
+
+  return undefined;
+}
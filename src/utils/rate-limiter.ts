@@ -0,0 +1,65 @@
+/**
+ * Token-bucket rate limiter for outgoing WispHub API requests
+ */
+
+import { setTimeout as sleep } from 'node:timers/promises';
+
+export class TokenBucketRateLimiter {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+
+  /**
+   * @param requestsPerSecond Sustained rate; 0 disables limiting (pauses still apply)
+   * @param burst Bucket capacity - requests allowed back to back after idling
+   */
+  constructor(private requestsPerSecond: number, private burst: number) {
+    this.tokens = burst;
+  }
+
+  /**
+   * Wait until a request may be sent. Rejects if `signal` aborts while waiting.
+   */
+  async acquire(signal?: AbortSignal): Promise<void> {
+    for (;;) {
+      signal?.throwIfAborted();
+
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        await sleep(this.pausedUntil - now, undefined, { signal });
+        continue;
+      }
+
+      if (this.requestsPerSecond <= 0) return;
+
+      this.refill(now);
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+
+      const waitMs = Math.ceil((1 - this.tokens) / this.requestsPerSecond * 1000);
+      await sleep(waitMs, undefined, { signal });
+    }
+  }
+
+  /**
+   * Hold every request for `ms` (e.g. after a 429 with Retry-After)
+   */
+  pauseFor(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  /**
+   * Milliseconds left in the current pause, 0 if none
+   */
+  getPauseRemaining(): number {
+    return Math.max(0, this.pausedUntil - Date.now());
+  }
+
+  private refill(now: number): void {
+    const elapsedSeconds = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.burst, this.tokens + elapsedSeconds * this.requestsPerSecond);
+    this.lastRefill = now;
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Zod schemas for raw WispHub API payloads
+ * Mirror ApiCliente, ApiTicket and ApiSaldo, coercing the loose values the
+ * API is known to send (numbers as strings, ticket estado/prioridad as text)
+ */
+
+import { z } from 'zod';
+
+// Numbers sent as strings ("12.50") and strings sent as numbers
+const number = z.coerce.number().refine(Number.isFinite, 'Expected a number');
+const text = z.preprocess(value => typeof value === 'number' ? String(value) : value, z.string());
+const nullableText = text.nullable();
+const boolean = z.preprocess(value => value === 'true' ? true : value === 'false' ? false : value, z.boolean());
+
+// { id, nombre } references (zona, plan, técnico...)
+const reference = z.object({
+  id: number,
+  nombre: text
+}).passthrough();
+
+// Ticket estado/prioridad come back as text on some endpoints ("En Progreso", "Alta")
+const ESTADO_TICKET_TEXT: Record<string, number> = {
+  nuevo: 1,
+  abierto: 1,
+  en_progreso: 2,
+  en_proceso: 2,
+  resuelto: 3,
+  cerrado: 4
+};
+
+const PRIORIDAD_TICKET_TEXT: Record<string, number> = {
+  baja: 1,
+  normal: 2,
+  media: 2,
+  alta: 3,
+  muy_alta: 4,
+  critica: 4
+};
+
+function textToCode(map: Record<string, number>) {
+  return z.preprocess(value => {
+    if (typeof value !== 'string' || value.trim() === '' || !Number.isNaN(Number(value))) {
+      return value;
+    }
+    const key = value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase().replace(/\s+/g, '_');
+    return map[key];
+  }, z.coerce.number().int().min(1).max(4));
+}
+
+/**
+ * /api/clientes/ item and /api/clientes/{id}/
+ */
+export const ApiClienteSchema = z.object({
+  id_servicio: number,
+  usuario: text,
+  nombre: text,
+  email: text,
+  cedula: text,
+  direccion: text,
+  localidad: text,
+  ciudad: text,
+  telefono: text,
+  descuento: text,
+  saldo: text,
+  rfc: text,
+  informacion_adicional: nullableText,
+  notificacion_sms: boolean,
+  aviso_pantalla: boolean,
+  notificaciones_push: boolean,
+  auto_activar_servicio: boolean,
+  firewall: boolean,
+  servicio: text,
+  password_servicio: text,
+  server_hotspot: text,
+  ip: text,
+  ip_local: nullableText,
+  estado: text,
+  modelo_antena: nullableText,
+  password_cpe: text,
+  mac_cpe: text,
+  interfaz_lan: text,
+  modelo_router_wifi: text,
+  ip_router_wifi: nullableText,
+  mac_router_wifi: text,
+  usuario_router_wifi: text,
+  password_router_wifi: text,
+  ssid_router_wifi: text,
+  password_ssid_router_wifi: text,
+  comentarios: text,
+  coordenadas: text,
+  costo_instalacion: text,
+  precio_plan: text,
+  forma_contratacion: text,
+  sn_onu: text,
+  estado_facturas: text,
+  fecha_instalacion: text,
+  fecha_cancelacion: nullableText,
+  fecha_corte: text,
+  ultimo_cambio: text,
+  plan_internet: reference,
+  zona: reference,
+  router: reference.extend({
+    falla_general: boolean,
+    falla_general_descripcion: text
+  }),
+  sectorial: z.any(),
+  tecnico: reference
+}).passthrough();
+
+/**
+ * /api/tickets/ item and /api/tickets/{id}/
+ */
+export const ApiTicketSchema = z.object({
+  id: number,
+  servicio: number,
+  asunto: text,
+  descripcion: text,
+  estado: textToCode(ESTADO_TICKET_TEXT),
+  prioridad: textToCode(PRIORIDAD_TICKET_TEXT),
+  tecnico: nullableText,
+  fecha_creacion: text,
+  fecha_cierre: nullableText.optional()
+}).passthrough();
+
+/**
+ * /api/clientes/{id}/saldo/
+ */
+export const ApiSaldoSchema = z.object({
+  id_servicio: number,
+  saldo_actual: number,
+  fecha_ultimo_pago: text,
+  facturas_pendientes: z.array(z.object({
+    id_factura: number,
+    monto: number,
+    fecha_vencimiento: text,
+    dias_vencido: number
+  }).passthrough())
+}).passthrough();
@@ -11,34 +11,55 @@ export const EstadoClienteSchema = z.enum(['activo', 'suspendido', 'cancelado'])
 export const EstadoTicketSchema = z.enum(['nuevo', 'en_progreso', 'resuelto', 'cerrado']);
 export const PrioridadTicketSchema = z.enum(['baja', 'normal', 'alta', 'muy_alta']);
 
+/**
+ * WispHub account a tool acts on; every tool accepts it and echoes it back
+ */
+export const CuentaSchema = z.string().min(1).optional()
+  .describe('Cuenta de WispHub sobre la que actuar (por defecto la cuenta predeterminada del servidor)');
+
+const CuentaActivaSchema = z.string().describe('Cuenta de WispHub sobre la que se actuó');
+
 /**
  * Consultar Clientes Input Schema
  */
 export const ConsultarClientesInputSchema = z.object({
-  estado: EstadoClienteSchema.optional(),
-  zona: z.number().positive().optional(),
-  plan: z.string().min(1).optional(),
-  search: z.string().min(1).optional().describe('Buscar en nombre, apellido o email'),
-  limit: z.number().min(1).max(100).default(20).describe('Número máximo de resultados'),
-  offset: z.number().min(0).default(0).describe('Número de resultados a omitir para paginación')
-}).strict().describe('Filtros para consultar clientes');
+  estado: EstadoClienteSchema.optional().describe('Filtrar por estado del servicio'),
+  zona: z.number().positive().optional().describe('Filtrar por zona específica'),
+  plan: z.string().min(1).optional().describe('Filtrar por tipo de plan'),
+  search: z.string().min(1).optional().describe('Buscar en nombre, apellido o email del cliente'),
+  limit: z.number().min(1).max(100).default(20).describe('Número máximo de resultados (default: 20, max: 100)'),
+  offset: z.number().min(0).default(0).describe('Número de resultados a omitir para paginación (default: 0)'),
+  todos: z.boolean().default(false).describe('Recorrer todas las páginas (ignora limit y offset, con un tope configurable)'),
+  cuenta: CuentaSchema
+}).strict().describe('Filtros opcionales para la consulta de clientes');
 
 /**
  * Obtener Cliente Input Schema
  */
 export const ObtenerClienteInputSchema = z.object({
-  clienteId: z.string().min(1).describe('ID del cliente, email, o número de servicio')
-}).strict().describe('Parámetros para obtener un cliente específico');
+  clienteId: z.string().min(1).describe('ID del cliente, email, o número de servicio'),
+  cuenta: CuentaSchema
+}).strict().describe('Identificador del cliente a consultar');
 
 /**
  * Crear Ticket Input Schema
  */
 export const CrearTicketInputSchema = z.object({
   servicio: z.number().positive().describe('ID del servicio del cliente'),
-  asunto: z.string().min(1).max(255).describe('Asunto del ticket'),
-  descripcion: z.string().min(1).describe('Descripción detallada del problema'),
-  prioridad: PrioridadTicketSchema.default('normal').describe('Prioridad del ticket')
-}).strict().describe('Datos para crear un nuevo ticket de soporte');
+  asunto: z.string().min(1).max(255).describe('Asunto o título del ticket (máximo 255 caracteres)'),
+  descripcion: z.string().min(1).describe('Descripción detallada del problema o solicitud'),
+  prioridad: PrioridadTicketSchema.default('normal').describe('Prioridad del ticket (por defecto: normal)'),
+  cuenta: CuentaSchema
+}).strict().describe('Datos necesarios para crear un nuevo ticket de soporte');
+
+/**
+ * Obtener Tickets Cliente Input Schema
+ */
+export const ObtenerTicketsClienteInputSchema = z.object({
+  servicio: z.number().positive().describe('ID del servicio del cliente'),
+  todos: z.boolean().default(false).describe('Recorrer todas las páginas de tickets (con un tope configurable)'),
+  cuenta: CuentaSchema
+}).strict().describe('ID del servicio para consultar tickets');
 
 /**
  * Listar Tickets Input Schema
@@ -59,18 +80,20 @@ export const ListarTicketsInputSchema = z.object({
  */
 export const ActualizarTicketInputSchema = z.object({
   ticketId: z.number().positive().describe('ID del ticket a actualizar'),
-  estado: EstadoTicketSchema.optional().describe('Nuevo estado del ticket'),
-  prioridad: PrioridadTicketSchema.optional().describe('Nueva prioridad del ticket'),
-  tecnico: z.string().optional().describe('ID del técnico asignado'),
-  notas: z.string().optional().describe('Notas adicionales sobre la actualización')
-}).strict().describe('Parámetros para actualizar un ticket existente');
+  estado: EstadoTicketSchema.optional().describe('Nuevo estado del ticket (nuevo, en_progreso, resuelto, cerrado)'),
+  prioridad: PrioridadTicketSchema.optional().describe('Nueva prioridad del ticket (baja, normal, alta, muy_alta)'),
+  tecnico: z.string().optional().describe('ID del técnico asignado (ej: 3288010 para admin@almacreativa)'),
+  notas: z.string().optional().describe('Notas adicionales sobre la actualización o seguimiento'),
+  cuenta: CuentaSchema
+}).strict().describe('Parámetros para actualizar un ticket existente. Al menos un campo opcional debe ser proporcionado.');
 
 /**
  * Consultar Saldo Input Schema
  */
 export const ConsultarSaldoInputSchema = z.object({
-  id_servicio: z.number().positive().describe('ID del servicio del cliente')
-}).strict().describe('Parámetros para consultar saldo de cliente');
+  id_servicio: z.number().positive().describe('ID del servicio del cliente'),
+  cuenta: CuentaSchema
+}).strict().describe('ID del servicio para consultar saldo');
 
 /**
  * Activar Servicio Input Schema
@@ -92,25 +115,34 @@ export const DesactivarServicioInputSchema = z.object({
  * Cambiar Estado Servicio Input Schema
  */
 export const CambiarEstadoServicioInputSchema = z.object({
-  id_servicio: z.number().positive().describe('ID del servicio a modificar'),
+  id_servicio: z.number().positive().describe('ID del servicio del cliente a modificar'),
   nuevo_estado: EstadoClienteSchema.describe('Nuevo estado del servicio'),
-  motivo: z.string().min(1).describe('Motivo del cambio de estado')
+  motivo: z.string().min(1).describe('Motivo obligatorio del cambio de estado'),
+  cuenta: CuentaSchema
 }).strict().describe('Parámetros para cambiar el estado de un servicio');
 
 /**
  * Actualizar Cliente Input Schema
  */
 export const ActualizarClienteInputSchema = z.object({
-  id_servicio: z.number().positive().describe('ID del servicio del cliente'),
-  email: z.string().email().optional().describe('Nueva dirección de email'),
+  id_servicio: z.number().positive().describe('ID del servicio del cliente a actualizar'),
+  email: z.string().email().optional().describe('Nueva dirección de email del cliente'),
   telefono: z.string().optional().describe('Nuevo número de teléfono'),
-  direccion: z.string().optional().describe('Nueva dirección'),
+  direccion: z.string().optional().describe('Nueva dirección física'),
   localidad: z.string().optional().describe('Nueva localidad'),
   ciudad: z.string().optional().describe('Nueva ciudad'),
-  comentarios: z.string().optional().describe('Comentarios o notas del cliente'),
-  notificacion_sms: z.boolean().optional().describe('Habilitar notificaciones SMS'),
-  notificaciones_push: z.boolean().optional().describe('Habilitar notificaciones push')
-}).strict().describe('Parámetros para actualizar información del cliente');
+  comentarios: z.string().optional().describe('Comentarios o notas adicionales sobre el cliente'),
+  notificacion_sms: z.boolean().optional().describe('Habilitar o deshabilitar notificaciones SMS'),
+  notificaciones_push: z.boolean().optional().describe('Habilitar o deshabilitar notificaciones push'),
+  cuenta: CuentaSchema
+}).strict().describe('Parámetros para actualizar información del cliente. Al menos un campo opcional debe ser proporcionado.');
+
+/**
+ * Diagnostico Servidor Input Schema
+ */
+export const DiagnosticoServidorInputSchema = z.object({
+  cuenta: CuentaSchema
+}).strict().describe('Cuenta a diagnosticar (opcional)');
 
 /**
  * Editar Cliente Input Schema
@@ -125,6 +157,217 @@ export const EditarClienteInputSchema = z.object({
   }).strict().describe('Datos a actualizar del cliente')
 }).strict().describe('Parámetros para editar información de cliente');
 
+/**
+ * Output schemas
+ * Mirror the MCP-friendly types in wisphub.types.ts (Cliente, Ticket, SaldoDetalle)
+ */
+export const ClienteSchema = z.object({
+  id_servicio: z.number(),
+  usuario: z.string(),
+  nombre_completo: z.string(),
+  email: z.string(),
+  telefono: z.string(),
+  direccion: z.string(),
+  localidad: z.string(),
+  ciudad: z.string(),
+  zona: z.number(),
+  zona_nombre: z.string(),
+  plan: z.string(),
+  precio_plan: z.string(),
+  estado: EstadoClienteSchema,
+  estado_facturas: z.string(),
+  fecha_instalacion: z.string(),
+  fecha_corte: z.string(),
+  fecha_ultimo_cambio: z.string(),
+  saldo_formateado: z.string(),
+  saldo_numerico: z.number(),
+  configuracion_red: z.object({
+    ip: z.string(),
+    ip_local: z.string().optional(),
+    mac: z.string(),
+    interfaz_lan: z.string(),
+    router_nombre: z.string(),
+    router_wifi: z.object({
+      modelo: z.string(),
+      ip: z.string().optional(),
+      mac: z.string(),
+      ssid: z.string()
+    })
+  }),
+  tecnico: z.object({
+    id: z.number(),
+    nombre: z.string()
+  }),
+  comentarios: z.string(),
+  coordenadas: z.string()
+}).describe('Cliente en formato amigable');
+
+export const TicketSchema = z.object({
+  id: z.number(),
+  servicio: z.number(),
+  asunto: z.string(),
+  descripcion: z.string(),
+  estado: EstadoTicketSchema,
+  prioridad: PrioridadTicketSchema,
+  tecnico: z.string(),
+  fecha_creacion: z.string(),
+  fecha_cierre: z.string().optional()
+}).describe('Ticket de soporte en formato amigable');
+
+export const FacturaPendienteSchema = z.object({
+  id_factura: z.number(),
+  monto_formateado: z.string(),
+  monto_numerico: z.number(),
+  fecha_vencimiento: z.string(),
+  dias_vencido: z.number(),
+  estado_vencimiento: z.enum(['vigente', 'vencida', 'muy_vencida'])
+});
+
+export const SaldoDetalleSchema = z.object({
+  id_servicio: z.number(),
+  saldo_actual_formateado: z.string(),
+  saldo_actual_numerico: z.number(),
+  fecha_ultimo_pago: z.string(),
+  estado_cuenta: z.enum(['al_corriente', 'con_atraso', 'muy_atrasado']),
+  facturas_pendientes: z.object({
+    cantidad: z.number(),
+    total_adeudado: z.string(),
+    facturas: z.array(FacturaPendienteSchema)
+  })
+}).describe('Estado de cuenta detallado del cliente');
+
+export const ConsultarSaldoOutputSchema = SaldoDetalleSchema.extend({
+  cuenta: CuentaActivaSchema
+});
+
+export const ConsultarClientesOutputSchema = z.object({
+  cuenta: CuentaActivaSchema,
+  clientes: z.array(ClienteSchema),
+  total: z.number().describe('Clientes devueltos (esta página, o todas si todos=true)'),
+  limit: z.number(),
+  offset: z.number(),
+  todos: z.boolean(),
+  truncado: z.boolean().describe('Se alcanzó el tope de resultados antes de la última página')
+});
+
+export const ObtenerClienteOutputSchema = z.object({
+  cuenta: CuentaActivaSchema,
+  encontrado: z.boolean(),
+  cliente: ClienteSchema.optional()
+});
+
+export const ActualizarClienteOutputSchema = z.object({
+  cuenta: CuentaActivaSchema,
+  cliente: ClienteSchema,
+  campos_actualizados: z.array(z.string()),
+  campos_no_persistentes: z.array(z.string()).describe('Campos de contacto que la API de WispHub no persiste')
+});
+
+export const CrearTicketOutputSchema = z.object({
+  cuenta: CuentaActivaSchema,
+  ticket: TicketSchema
+});
+
+export const ObtenerTicketsClienteOutputSchema = z.object({
+  cuenta: CuentaActivaSchema,
+  servicio: z.number(),
+  total: z.number(),
+  tickets: z.array(TicketSchema),
+  truncado: z.boolean().describe('Se alcanzó el tope de resultados antes de la última página')
+});
+
+export const ActualizarTicketOutputSchema = z.object({
+  cuenta: CuentaActivaSchema,
+  ticket: TicketSchema,
+  verificado: z.boolean().describe('Si el ticket se volvió a leer de la API después de actualizarlo')
+});
+
+export const CambiarEstadoServicioOutputSchema = z.object({
+  cuenta: CuentaActivaSchema,
+  id_servicio: z.number(),
+  estado_anterior: EstadoClienteSchema,
+  estado_solicitado: EstadoClienteSchema,
+  motivo: z.string(),
+  cambio_enviado: z.boolean().describe('Falso si el servicio ya estaba en el estado solicitado'),
+  estado_verificado: EstadoClienteSchema.optional().describe('Estado leído de la API después del cambio, si se verificó')
+});
+
+const CacheSchema = z.object({
+  hits: z.number(),
+  misses: z.number(),
+  size: z.number(),
+  bytes: z.number().describe('Tamaño aproximado en bytes'),
+  evictions: z.number().describe('Entradas desalojadas por los límites de la caché'),
+  hitRate: z.number()
+});
+
+export const DiagnosticoServidorOutputSchema = z.object({
+  cuenta: CuentaActivaSchema,
+  api: z.object({
+    estado: z.enum(['ok', 'auth_error', 'rate_limited', 'server_error', 'client_error', 'unreachable']),
+    reachable: z.boolean(),
+    status: z.number().optional(),
+    latency_ms: z.number(),
+    error: z.string().optional()
+  }),
+  circuito: z.object({
+    estado: z.enum(['closed', 'open', 'half_open']),
+    fallos_consecutivos: z.number(),
+    reintento_en_s: z.number().optional()
+  }).describe('Estado del circuit breaker hacia la API de WispHub'),
+  base_url: z.string(),
+  cuentas: z.array(z.string()).describe('Cuentas de WispHub configuradas'),
+  modo: z.string(),
+  perfil: z.string().optional(),
+  uptime_s: z.number(),
+  cache: CacheSchema.describe('Estadísticas de la caché de la cuenta, compartida por todos los servicios'),
+  errores: z.record(z.number()).describe('Errores por código en la ventana reciente'),
+  ventana_errores_min: z.number(),
+  deriva_api: z.record(z.object({
+    muestras: z.number(),
+    inesperados: z.array(z.string()),
+    faltantes: z.array(z.string()),
+    invalidos: z.array(z.string()),
+    ultima_vez: z.string().optional()
+  })).describe('Campos inesperados, faltantes o inválidos en las respuestas de la API, por endpoint'),
+  capacidades: z.object({
+    sondeado_en: z.string(),
+    endpoints: z.record(z.object({
+      estado: z.enum(['disponible', 'no_disponible', 'desconocido']),
+      metodos_lista: z.array(z.string()),
+      metodos_detalle: z.array(z.string()),
+      status: z.number().optional(),
+      error: z.string().optional()
+    }))
+  }).optional().describe('Endpoints de la instancia de WispHub y métodos que acepta cada uno; ausente mientras el primer sondeo está en curso')
+});
+
+/**
+ * Prompt argument schemas
+ * Prompt arguments always arrive as strings, so numeric IDs are coerced
+ */
+export const DiagnosticoConectividadPromptSchema = z.object({
+  id_servicio: z.coerce.number().int().positive().describe('ID del servicio del cliente'),
+  sintomas: z.string().optional().describe('Síntomas reportados por el cliente (ej: lento, sin internet, intermitente)')
+}).describe('Argumentos para el diagnóstico de conectividad');
+
+export const GestionCobranzaPromptSchema = z.object({
+  id_servicio: z.coerce.number().int().positive().describe('ID del servicio del cliente'),
+  notas: z.string().optional().describe('Contexto de la gestión (promesa de pago, acuerdos previos, etc.)')
+}).describe('Argumentos para la gestión de cobranza');
+
+export const ReporteFallaPromptSchema = z.object({
+  id_servicio: z.coerce.number().int().positive().describe('ID del servicio del cliente'),
+  descripcion: z.string().min(1).describe('Descripción de la falla reportada por el cliente'),
+  prioridad: PrioridadTicketSchema.optional().describe('Prioridad sugerida del ticket (baja, normal, alta, muy_alta)'),
+  tecnico: z.string().optional().describe('ID del técnico a asignar al ticket')
+}).describe('Argumentos para dar de alta un reporte de falla');
+
+export const RevisionZonaPromptSchema = z.object({
+  zona: z.coerce.number().int().positive().describe('ID de la zona a revisar'),
+  plan: z.string().optional().describe('Limitar la revisión a un plan')
+}).describe('Argumentos para revisar una posible falla masiva en una zona');
+
 /**
  * Common validation utilities
  */